@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import type { AccessRequest, PostMessageEndpoint } from '../src/index'
+import { consume, provide, remoteHas, remoteKeys } from '../src/index'
+import { setup } from './test-utils'
+
+const createApi = () => ({
+  users: { list: () => ['ada'] },
+  admin: { wipe: () => 'wiped', settings: { level: 1 } }
+})
+
+describe('provider access policy', () => {
+  it('should pass request details to a policy callback', async () => {
+    const requests: AccessRequest[] = []
+    const { remote, close } = setup(createApi(), {
+      policy: (request) => { requests.push(request); return true }
+    })
+
+    await remote.users.list()
+
+    expect(requests).toEqual([{
+      consumerID: expect.any(String),
+      realmId: expect.any(String),
+      operationType: 'call',
+      propertyChain: ['users', 'list'],
+      pipelined: false,
+      resolvedChain: ['users', 'list']
+    }])
+
+    close()
+  })
+
+  it('should reject requests the callback denies with E019', async () => {
+    const { remote, close } = setup(createApi(), {
+      policy: ({ propertyChain }) => propertyChain[0] !== 'admin'
+    })
+
+    expect(await remote.users.list()).toEqual(['ada'])
+    await expect(remote.admin.wipe()).rejects.toThrow("ACCESS DENIED - The access policy rejected 'call' on 'admin.wipe'.")
+    await expect(remote.admin.settings.level).rejects.toThrow('ACCESS DENIED')
+
+    close()
+  })
+
+  it('should deny requests when the callback throws', async () => {
+    const { remote, close } = setup(createApi(), {
+      policy: () => { throw new Error('policy failure') }
+    })
+
+    await expect(remote.users.list()).rejects.toThrow('ACCESS DENIED')
+
+    close()
+  })
+
+  it('should decide per consumer', async () => {
+    const api = createApi()
+    const { port1, port2 } = new MessageChannel()
+    let trustedConsumer: string | undefined
+    provide(api, port2 as PostMessageEndpoint, {
+      policy: ({ consumerID, propertyChain }) => {
+        trustedConsumer ??= consumerID
+        return propertyChain[0] !== 'admin' || consumerID === trustedConsumer
+      }
+    })
+
+    const trusted = consume<typeof api>(port1 as PostMessageEndpoint)
+    expect(await trusted.admin.wipe()).toBe('wiped')
+
+    const other = consume<typeof api>(port1 as PostMessageEndpoint)
+    await expect(other.admin.wipe()).rejects.toThrow('ACCESS DENIED')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should apply allow and deny lists', async () => {
+    const { remote, close } = setup(createApi(), {
+      policy: { allow: ['users', 'admin.settings'], deny: ['admin.*.level'] }
+    })
+
+    expect(await remote.users.list()).toEqual(['ada'])
+    await expect(remote.admin.wipe()).rejects.toThrow('ACCESS DENIED')
+    await expect(remote.admin.settings.level).rejects.toThrow('ACCESS DENIED')
+    expect(await remoteKeys(remote.admin.settings)).toEqual(['level'])
+
+    close()
+  })
+
+  it('should apply allow and deny lists to results by the path of the call', async () => {
+    const api = createApi()
+    const { remote, close } = setup({ getAdmin: () => api.admin }, {
+      policy: { deny: ['getAdmin.wipe'] }
+    })
+
+    await expect(remote.getAdmin().wipe()).rejects.toThrow("ACCESS DENIED - The access policy rejected 'call' on 'wipe'.")
+    await expect((await remote.getAdmin()).wipe()).rejects.toThrow('ACCESS DENIED')
+    expect(await remote.getAdmin().settings.level).toBe(1)
+
+    close()
+  })
+
+  it('should check objects reached through a result by the path of the call rather than where they are provided', async () => {
+    const api = createApi()
+    const { remote, close } = setup({ admin: api.admin, getAdmin: () => api.admin }, {
+      policy: { deny: ['admin'] }
+    })
+
+    await expect(remote.admin.wipe()).rejects.toThrow('ACCESS DENIED')
+    expect(await remote.getAdmin().wipe()).toBe('wiped')
+
+    close()
+  })
+
+  it('should pass the resolved path of pipelined requests to a policy callback', async () => {
+    const requests: AccessRequest[] = []
+    const api = createApi()
+    const { remote, close } = setup({ getAdmin: () => api.admin }, {
+      policy: (request) => { requests.push(request); return true }
+    })
+
+    expect(await remote.getAdmin().wipe()).toBe('wiped')
+    expect(requests.map(({ propertyChain, pipelined, resolvedChain }) => ({ propertyChain, pipelined, resolvedChain }))).toEqual([
+      { propertyChain: ['getAdmin'], pipelined: false, resolvedChain: ['getAdmin'] },
+      { propertyChain: ['wipe'], pipelined: true, resolvedChain: ['getAdmin', 'wipe'] }
+    ])
+
+    close()
+  })
+
+  it('should include the inspected key for introspection operations', async () => {
+    const { remote, close } = setup(createApi(), { policy: { deny: ['admin.wipe'] } })
+
+    expect(await remoteHas(remote.users, 'list')).toBe(true)
+    await expect(remoteHas(remote.admin, 'wipe')).rejects.toThrow('ACCESS DENIED')
+
+    close()
+  })
+
+  it('should apply the policy to objects handed out by an await', async () => {
+    const { remote, close } = setup(createApi(), { policy: { deny: ['admin.wipe'] } })
+
+    const admin = await remote.admin
+    await expect(admin.wipe()).rejects.toThrow("ACCESS DENIED - The access policy rejected 'call' on 'admin.wipe'.")
+    expect(await (await remote.users).list()).toEqual(['ada'])
+
+    close()
+  })
+
+  it('should check requests on handed out objects as requests of the receiving consumer', async () => {
+    const requests: AccessRequest[] = []
+    const { remote, close } = setup(createApi(), {
+      policy: (request) => { requests.push(request); return request.propertyChain.join('.') !== 'admin.wipe' }
+    })
+
+    const admin = await remote.admin
+    await expect(admin.wipe()).rejects.toThrow('ACCESS DENIED')
+    const [awaited, called] = requests
+
+    expect(called).toEqual(expect.objectContaining({ propertyChain: ['admin', 'wipe'], pipelined: false, consumerID: awaited!.consumerID }))
+
+    close()
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, provide } from '../src/index'
+
+describe('async iterators', () => {
+  it('should iterate a remote async generator with for await', async () => {
+    const api = {
+      async *streamLogs(count: number) {
+        for (let i = 0; i < count; i++) {
+          yield `line ${i}`
+        }
+      }
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const lines: string[] = []
+    for await (const line of remote.streamLogs(3)) {
+      lines.push(line)
+    }
+    expect(lines).toEqual(['line 0', 'line 1', 'line 2'])
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should pull values on demand and keep non clonable values', async () => {
+    let pulled = 0
+    const api = {
+      async *dates() {
+        while (true) {
+          pulled++
+          yield new Date(pulled * 1000)
+        }
+      }
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const iterator = await remote.dates()
+    const first = await iterator.next()
+    expect(first.value).toBeInstanceOf(Date)
+    expect((first.value as Date).getTime()).toBe(1000)
+    expect(pulled).toBe(1)
+
+    await iterator.next()
+    expect(pulled).toBe(2)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should run the provider cleanup when the consumer breaks early', async () => {
+    let cleanedUp = false
+    const api = {
+      async *numbers() {
+        try {
+          let i = 0
+          while (true) {
+            yield i++
+          }
+        } finally {
+          cleanedUp = true
+        }
+      }
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    for await (const value of remote.numbers()) {
+      if (value === 2) {break}
+    }
+    expect(cleanedUp).toBe(true)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should forward throw() and errors from the provider', async () => {
+    const api = {
+      async *failing() {
+        yield 1
+        throw new Error('stream failed')
+      }
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const iterator = await remote.failing()
+    expect(await iterator.next()).toEqual({ done: false, value: 1 })
+    await expect(iterator.next()).rejects.toThrow('stream failed')
+    expect(await iterator.next()).toEqual({ done: true, value: undefined })
+
+    const other = await remote.failing()
+    await expect(other.throw!('stop')).rejects.toBe('stop')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should iterate plain async iterators but keep the methods of other async iterables', async () => {
+    class Feed {
+      latest() { return 'latest' }
+      async *[Symbol.asyncIterator]() { yield 'entry' }
+    }
+    const api = {
+      plain: () => {
+        let isDone = false
+        const iterator = {
+          next: async () => {
+            const result = { done: isDone, value: 'plain' }
+            isDone = true
+            return result
+          },
+          [Symbol.asyncIterator]: () => iterator
+        }
+        return iterator
+      },
+      feed: () => new Feed()
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const values: string[] = []
+    for await (const value of remote.plain()) {
+      values.push(value)
+    }
+    expect(values).toEqual(['plain'])
+    const feed = await remote.feed() as unknown as { latest: () => Promise<string> }
+    expect(await feed.latest()).toBe('latest')
+
+    port1.close()
+    port2.close()
+  })
+})
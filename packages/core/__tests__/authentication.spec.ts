@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import type { AccessRequest, Authenticator, PostMessageEndpoint } from '../src/index'
+import { consume, getCallContext, getPeerInfo, provide } from '../src/index'
+
+const users: Record<string, { name: string }> = { 'token-ada': { name: 'ada' }, 'token-bob': { name: 'bob' } }
+
+const byToken: Authenticator = ({ credentials }) => users[credentials as string]
+
+const createApi = () => ({
+  whoami: () => getCallContext()?.identity
+})
+
+describe('authentication', () => {
+  it('should bind the identity to the consumer and expose it in the call context', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide(createApi(), port2 as PostMessageEndpoint, { authenticate: byToken })
+    const ada = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: () => 'token-ada' })
+    const bob = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: async () => 'token-bob' })
+
+    expect(await ada.whoami()).toEqual({ name: 'ada' })
+    expect(await bob.whoami()).toEqual({ name: 'bob' })
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should reject calls with E027 when the credentials are rejected', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide(createApi(), port2 as PostMessageEndpoint, { authenticate: byToken })
+    const remote = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: () => 'wrong' })
+
+    await expect(remote.whoami()).rejects.toThrow('AUTHENTICATION FAILED')
+    await expect(remote.whoami()).rejects.toThrow('AUTHENTICATION FAILED')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should reject requests of unauthenticated consumers with E028', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide(createApi(), port2 as PostMessageEndpoint, { authenticate: byToken })
+    const remote = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint)
+
+    await expect(remote.whoami()).rejects.toThrow('NOT AUTHENTICATED')
+    // The handshake itself is still answered
+    expect((await getPeerInfo(remote)).challenge).toEqual(expect.any(String))
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should answer a challenge with a signature', async () => {
+    const secret = await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+    const encoder = new TextEncoder()
+    const challenges: string[] = []
+
+    const { port1, port2 } = new MessageChannel()
+    provide(createApi(), port2 as PostMessageEndpoint, {
+      authenticate: async ({ credentials, challenge }) => {
+        challenges.push(challenge)
+        const isValid = await crypto.subtle.verify('HMAC', secret, credentials as Uint8Array<ArrayBuffer>, encoder.encode(challenge))
+        return isValid && { name: 'device' }
+      }
+    })
+    const sign = async (challenge: string) => new Uint8Array(await crypto.subtle.sign('HMAC', secret, encoder.encode(challenge)))
+    const first = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: sign })
+    const second = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: sign })
+    const forged = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: () => new Uint8Array(32) })
+
+    expect(await first.whoami()).toEqual({ name: 'device' })
+    expect(await second.whoami()).toEqual({ name: 'device' })
+    await expect(forged.whoami()).rejects.toThrow('AUTHENTICATION FAILED')
+    expect(new Set(challenges).size).toBe(3)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should pass the identity to the access policy', async () => {
+    const requests: AccessRequest[] = []
+    const { port1, port2 } = new MessageChannel()
+    provide(createApi(), port2 as PostMessageEndpoint, {
+      authenticate: byToken,
+      policy: (request) => { requests.push(request); return (request.identity as { name: string }).name === 'ada' }
+    })
+    const ada = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: () => 'token-ada' })
+    const bob = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: () => 'token-bob' })
+
+    expect(await ada.whoami()).toEqual({ name: 'ada' })
+    await expect(bob.whoami()).rejects.toThrow('ACCESS DENIED')
+    expect(requests.map(({ identity }) => identity)).toEqual(expect.arrayContaining([{ name: 'ada' }, { name: 'bob' }]))
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should not require authentication from providers without it', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide(createApi(), port2 as PostMessageEndpoint)
+    const remote = consume<ReturnType<typeof createApi>>(port1 as PostMessageEndpoint, { authenticate: () => 'token-ada' })
+
+    expect(await remote.whoami()).toBeUndefined()
+    expect((await getPeerInfo(remote)).challenge).toBeUndefined()
+
+    port1.close()
+    port2.close()
+  })
+})
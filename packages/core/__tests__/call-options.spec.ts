@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import type { Interceptor } from '../src/index'
+import { getCallContext, withOptions } from '../src/index'
+import { setup } from './test-utils'
+
+const createApi = () => ({
+  reports: {
+    heavy: (ms: number) => new Promise(resolve => setTimeout(() => resolve('report'), ms)),
+    context: () => {
+      const { priority, metadata } = getCallContext()!
+      return { priority, metadata }
+    }
+  }
+})
+
+describe('per-call options', () => {
+  it('should override the timeout of the consumer', async () => {
+    const { remote, close } = setup(createApi(), {}, { timeout: 0.02 })
+
+    await expect(remote.reports.heavy(100)).rejects.toThrow('timout of 0.02 seconds')
+    expect(await withOptions(remote.reports.heavy, { timeout: 1 })(100)).toBe('report')
+    expect(await withOptions(remote.reports, { timeout: 0 }).heavy(100)).toBe('report')
+    close()
+  })
+
+  it('should pass priority and metadata to the call context', async () => {
+    const { remote, close } = setup(createApi())
+
+    expect(await remote.reports.context()).toEqual({ priority: undefined, metadata: {} })
+    expect(await withOptions(remote, { priority: 5, metadata: { tenant: 'acme' } }).reports.context()).toEqual({
+      priority: 5,
+      metadata: { tenant: 'acme' }
+    })
+    close()
+  })
+
+  it('should merge the metadata of views derived from views', async () => {
+    const { remote, close } = setup(createApi())
+    const tenant = withOptions(remote, { metadata: { tenant: 'acme', trace: 'a' } })
+    const traced = withOptions(tenant.reports, { metadata: { trace: 'b' } })
+
+    expect(await traced.context()).toEqual({ priority: undefined, metadata: { tenant: 'acme', trace: 'b' } })
+    expect(await tenant.reports.context()).toEqual({ priority: undefined, metadata: { tenant: 'acme', trace: 'a' } })
+    close()
+  })
+
+  it('should expose priority and metadata to interceptors', async () => {
+    const seen: unknown[] = []
+    const interceptor: Interceptor = (request, next) => {
+      seen.push([request.priority, request.metadata])
+      return next(request)
+    }
+    const { remote, close } = setup(createApi(), { interceptors: [interceptor] })
+
+    await withOptions(remote.reports.context, { priority: 1, metadata: { user: 'ada' } })()
+
+    expect(seen).toEqual([[1, { user: 'ada' }]])
+    close()
+  })
+
+  it('should reject metadata beyond the size limit with E030', async () => {
+    const { remote, close } = setup(createApi(), { limits: { maxArgSize: 64 } })
+
+    await expect(withOptions(remote, { metadata: { blob: 'x'.repeat(100) } }).reports.context()).rejects.toThrow('METADATA TOO LARGE')
+    close()
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, getCallContext, provide, withOptions } from '../src/index'
+
+describe('call cancellation', () => {
+  it('should reject the local promise and abort the provider signal', async () => {
+    let providerSignal: AbortSignal | undefined
+    let resolveStarted: () => void
+    const started = new Promise<void>(resolve => { resolveStarted = resolve })
+
+    const api = {
+      search: (query: string) => {
+        const { signal } = getCallContext()!
+        providerSignal = signal
+        resolveStarted()
+        return new Promise((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(signal.reason))
+          setTimeout(() => resolve(query), 1000)
+        })
+      }
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const controller = new AbortController()
+    const result = withOptions(remote.search, { signal: controller.signal })('query')
+
+    await started
+    controller.abort()
+
+    await expect(result).rejects.toThrow('aborted')
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(providerSignal?.aborted).toBe(true)
+    expect(providerSignal?.reason.message).toContain('CALL CANCELLED')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should reject at once when the signal is already aborted', async () => {
+    const api = { add: (a: number, b: number) => a + b }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const signal = AbortSignal.abort(new Error('stop'))
+    await expect(withOptions(remote, { signal }).add(1, 2)).rejects.toThrow('stop')
+    expect(await remote.add(1, 2)).toBe(3)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should expose the call context only during the call', async () => {
+    const api = {
+      whoami: () => getCallContext()?.consumerID
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    expect(typeof await remote.whoami()).toBe('string')
+    expect(getCallContext()).toBeUndefined()
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should throw for values that are not remote proxies', () => {
+    expect(() => withOptions({}, {})).toThrow('NOT A REMOTE PROXY')
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest'
+import type { Codec, PostMessageEndpoint } from '../src/index'
+import { cborCodec, consume, createSendingEndpoint, jsonCodec, msgpackCodec, provide } from '../src/index'
+
+type FakeTransport = Omit<PostMessageEndpoint, 'postMessage'> & EventTarget & { send: (data: unknown) => void, binaryType: string, frames: unknown[] }
+
+// Two ends of an in-memory transport that records the frames each end sends
+const createTransportPair = (): [FakeTransport, FakeTransport] => {
+  const ends = [new EventTarget(), new EventTarget()] as unknown as FakeTransport[]
+  ends.forEach((end, i) => Object.assign(end, {
+    binaryType: 'blob',
+    frames: [],
+    send: (data: unknown) => {
+      end.frames.push(data)
+      setTimeout(() => ends[1 - i]!.dispatchEvent(new MessageEvent('message', { data })))
+    }
+  }))
+  return ends as [FakeTransport, FakeTransport]
+}
+
+const bytes = (frame: unknown) => [...new Uint8Array(frame as ArrayBuffer)]
+
+describe.each([msgpackCodec, cborCodec])('$name codec', (codec: Codec) => {
+  const roundtrip = (value: unknown) => codec.decode(codec.encode(value) as ArrayBuffer)
+
+  it('should encode into ArrayBuffer frames', () => {
+    expect(codec.binary).toBe(true)
+    expect(codec.encode({ a: 1 })).toBeInstanceOf(ArrayBuffer)
+  })
+
+  it.each([
+    ['null', null],
+    ['undefined', undefined],
+    ['booleans', [true, false]],
+    ['integers', [0, 1, 23, 24, 127, 128, 255, 256, 65_535, 65_536, 4_294_967_295, -1, -32, -33, -128, -129, -32_768, -32_769, -2_147_483_648]],
+    ['floats', [0.5, -1.25, 1e100, 2 ** 40, -(2 ** 53), Infinity, -Infinity]],
+    ['strings', ['', 'a', 'x'.repeat(31), 'x'.repeat(32), 'x'.repeat(70_000), 'grüße 🌍']],
+    ['BigInts', [0n, 1n, -1n, 2n ** 64n - 1n, -(2n ** 63n)]],
+    ['nested values', { list: [1, { deep: [undefined, null] }], empty: {}, none: [] }],
+    ['large collections', { array: Array.from({ length: 20 }, (_, i) => i), map: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`k${i}`, i])) }]
+  ])('should keep %s', (_, value) => {
+    expect(roundtrip(value)).toEqual(value)
+  })
+
+  it('should keep NaN and negative zero', () => {
+    expect(roundtrip(Number.NaN)).toBeNaN()
+    expect(Object.is(roundtrip(-0), -0)).toBe(true)
+  })
+
+  it('should decode binary data as Uint8Array', () => {
+    expect(roundtrip(new Uint8Array([1, 2, 3]))).toEqual(new Uint8Array([1, 2, 3]))
+    expect(roundtrip(new Uint16Array([0x01_02]).buffer)).toEqual(new Uint8Array(new Uint16Array([0x01_02]).buffer))
+  })
+
+  it('should keep __proto__ an own property', () => {
+    const decoded = roundtrip(JSON.parse('{"__proto__": {"polluted": true}}')) as Record<string, unknown>
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype)
+    expect(Object.keys(decoded)).toEqual(['__proto__'])
+  })
+
+  it('should reject values it can not encode', () => {
+    expect(() => codec.encode({ run: () => 1 })).toThrow(/^CODEC ERROR/)
+    expect(() => codec.encode(Symbol('s'))).toThrow(/^CODEC ERROR/)
+  })
+
+  it('should reject truncated and string frames', () => {
+    const frame = codec.encode('hello') as ArrayBuffer
+    expect(() => codec.decode(frame.slice(0, 3))).toThrow(/^CODEC ERROR/)
+    expect(() => codec.decode('hello')).toThrow(/^CODEC ERROR/)
+  })
+})
+
+describe('msgpack codec', () => {
+  it('should produce standard MessagePack', () => {
+    expect(bytes(msgpackCodec.encode({ a: [1, -1, 'b', null, true] }))).toEqual([0x81, 0xA1, 0x61, 0x95, 0x01, 0xFF, 0xA1, 0x62, 0xC0, 0xC3])
+    expect(bytes(msgpackCodec.encode(1.5))).toEqual([0xCB, 0x3F, 0xF8, 0, 0, 0, 0, 0, 0])
+  })
+
+  it('should reject BigInts beyond 64 bits', () => {
+    expect(() => msgpackCodec.encode(2n ** 64n)).toThrow(/^CODEC ERROR/)
+  })
+})
+
+describe('cbor codec', () => {
+  it('should produce standard CBOR', () => {
+    expect(bytes(cborCodec.encode({ a: [1, -1, 'b', null, true, undefined] }))).toEqual([0xA1, 0x61, 0x61, 0x86, 0x01, 0x20, 0x61, 0x62, 0xF6, 0xF5, 0xF7])
+    expect(bytes(cborCodec.encode(1000))).toEqual([0x19, 0x03, 0xE8])
+  })
+
+  it('should decode half floats and indefinite lengths', () => {
+    expect(cborCodec.decode(new Uint8Array([0xF9, 0x3C, 0x00]))).toBe(1)
+    expect(cborCodec.decode(new Uint8Array([0xF9, 0x7C, 0x00]))).toBe(Infinity)
+    expect(cborCodec.decode(new Uint8Array([0x9F, 0x01, 0x02, 0xFF]))).toEqual([1, 2])
+    expect(cborCodec.decode(new Uint8Array([0x7F, 0x61, 0x61, 0x61, 0x62, 0xFF]))).toBe('ab')
+    expect(cborCodec.decode(new Uint8Array([0xBF, 0x61, 0x61, 0x01, 0xFF]))).toEqual({ a: 1 })
+  })
+
+  it('should keep BigInts beyond 64 bits as bignums', () => {
+    expect(cborCodec.decode(cborCodec.encode(2n ** 100n) as ArrayBuffer)).toBe(2n ** 100n)
+    expect(cborCodec.decode(cborCodec.encode(-(2n ** 100n)) as ArrayBuffer)).toBe(-(2n ** 100n))
+  })
+})
+
+describe('codec endpoints', () => {
+  const api = {
+    inspect: (value: unknown) => ({ value, type: value === undefined ? 'undefined' : value?.constructor.name ?? typeof value }),
+    double: (value: bigint) => value * 2n
+  }
+
+  it('should send binary frames with a binary codec', async () => {
+    const [client, server] = createTransportPair()
+    provide(api, createSendingEndpoint(server, 'TEST', 'server', msgpackCodec))
+    const remote = consume<typeof api>(createSendingEndpoint(client, 'TEST', 'client', msgpackCodec))
+
+    expect(await remote.double(2n ** 60n)).toBe(2n ** 61n)
+    expect(await remote.inspect(new Uint8Array([1, 2]))).toEqual({ value: new Uint8Array([1, 2]), type: 'Uint8Array' })
+    expect(await remote.inspect(undefined)).toEqual({ value: undefined, type: 'undefined' })
+    expect(client.binaryType).toBe('arraybuffer')
+    expect(client.frames.every(frame => frame instanceof ArrayBuffer)).toBe(true)
+  })
+
+  it('should send JSON by default', async () => {
+    const [client, server] = createTransportPair()
+    provide(api, createSendingEndpoint(server))
+    const remote = consume<typeof api>(createSendingEndpoint(client))
+
+    expect(await remote.inspect('text')).toEqual({ value: 'text', type: 'String' })
+    expect(client.binaryType).toBe('blob')
+    expect(client.frames.every(frame => typeof frame === 'string')).toBe(true)
+  })
+
+  it('should choose the codec in the handshake', async () => {
+    const [client, server] = createTransportPair()
+    const serverEndpoint = createSendingEndpoint(server, 'TEST', 'server', [msgpackCodec, jsonCodec])
+    const clientEndpoint = createSendingEndpoint(client, 'TEST', 'client', [cborCodec, msgpackCodec])
+    provide(api, serverEndpoint)
+    const remote = consume<typeof api>(clientEndpoint, { handshake: true })
+
+    expect(clientEndpoint.codec).toBe('json')
+    expect(await remote.double(21n)).toBe(42n)
+
+    expect(clientEndpoint.codec).toBe('msgpack')
+    expect(serverEndpoint.codec).toBe('msgpack')
+    expect(typeof client.frames[0]).toBe('string')
+    expect(client.frames.at(-1)).toBeInstanceOf(ArrayBuffer)
+    expect(server.frames.at(-1)).toBeInstanceOf(ArrayBuffer)
+  })
+
+  it('should stay with JSON when the sides share no other codec', async () => {
+    const [client, server] = createTransportPair()
+    const serverEndpoint = createSendingEndpoint(server, 'TEST', 'server', [cborCodec])
+    const clientEndpoint = createSendingEndpoint(client, 'TEST', 'client', [msgpackCodec])
+    provide(api, serverEndpoint)
+    const remote = consume<typeof api>(clientEndpoint, { handshake: true })
+
+    expect(await remote.inspect(1)).toEqual({ value: 1, type: 'Number' })
+    expect(clientEndpoint.codec).toBe('json')
+    expect(serverEndpoint.codec).toBe('json')
+  })
+})
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, createCompressedEndpoint, createSendingEndpoint, provide } from '../src/index'
+import { createEndpointPair, removeTraceID, retained } from './test-utils'
+
+const receive = (endpoint: PostMessageEndpoint, count: number) => new Promise<unknown[]>(resolve => {
+  const received: unknown[] = []
+  const listener = ({ data }: MessageEvent) => {
+    received.push(data)
+    if (received.length === count) {
+      resolve(removeTraceID(received))
+    }
+  }
+  retained.push(endpoint, listener)
+  endpoint.addEventListener('message', listener)
+})
+
+const createLarge = () => ({ items: Array.from({ length: 500 }, (_, i) => ({ id: i, name: `item ${i}`, tags: ['a', 'b'] })) })
+
+describe('createCompressedEndpoint', () => {
+  afterEach(() => { retained.length = 0 })
+
+  it('should compress messages above the threshold', async () => {
+    const large = createLarge()
+    const [a, b] = createEndpointPair()
+    const sender = createCompressedEndpoint(a)
+    const received = receive(createCompressedEndpoint(b), 1)
+
+    sender.postMessage(large)
+
+    expect(await received).toEqual([createLarge()])
+    const [frame] = a.frames as { compressed: string, payload: Uint8Array }[]
+    expect(frame?.compressed).toBe('gzip')
+    expect(frame?.payload).toBeInstanceOf(Uint8Array)
+    expect(frame?.payload.length).toBeLessThan(JSON.stringify(large).length / 5)
+  })
+
+  it('should pass small messages through and keep the order', async () => {
+    const [a, b] = createEndpointPair()
+    const large = createLarge()
+    const sender = createCompressedEndpoint(a, { algorithm: 'deflate' })
+    const received = receive(createCompressedEndpoint(b), 3)
+
+    sender.postMessage({ first: true })
+    sender.postMessage(large)
+    sender.postMessage({ last: true })
+
+    expect(await received).toEqual([{ first: true }, createLarge(), { last: true }])
+    expect(removeTraceID(a.frames[0])).toEqual({ first: true })
+    expect(a.frames[1]).toMatchObject({ compressed: 'deflate' })
+  })
+
+  it('should accept messages from peers without compression', async () => {
+    const [a, b] = createEndpointPair()
+    const received = receive(createCompressedEndpoint(b), 1)
+
+    a.postMessage(createLarge())
+
+    expect(await received).toEqual([createLarge()])
+  })
+
+  it('should not compress with an infinite threshold', async () => {
+    const [a, b] = createEndpointPair()
+    const received = receive(b, 1)
+
+    createCompressedEndpoint(a, { threshold: Infinity }).postMessage(createLarge())
+
+    expect(await received).toEqual([createLarge()])
+  })
+
+  it('should send base64 payloads over JSON codec endpoints', async () => {
+    const transports = createEndpointPair().map(({ postMessage, addEventListener, removeEventListener }) => ({ send: postMessage, addEventListener, removeEventListener }))
+    const { items } = createLarge()
+    const api = { list: (count: number) => items.slice(0, count) }
+    provide(api, createCompressedEndpoint(createSendingEndpoint(transports[1]!, 'TEST', 'server')))
+    const remote = consume<typeof api>(createCompressedEndpoint(createSendingEndpoint(transports[0]!, 'TEST', 'client')))
+
+    expect(await remote.list(500)).toEqual(createLarge().items)
+    expect(await remote.list(1)).toEqual(createLarge().items.slice(0, 1))
+  })
+})
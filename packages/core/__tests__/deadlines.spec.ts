@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, getCallContext, provide, withOptions } from '../src/index'
+import { setup } from './test-utils'
+
+describe('deadlines', () => {
+  it('should turn the timeout of the consumer into a deadline on the provider', async () => {
+    const { remote, close } = setup({ deadline: () => getCallContext()?.deadline }, {}, { timeout: 2 })
+
+    const before = Date.now()
+    const deadline = await remote.deadline()
+
+    expect(deadline).toBeGreaterThanOrEqual(before + 2000)
+    expect(deadline).toBeLessThanOrEqual(Date.now() + 2000)
+    close()
+  })
+
+  it('should send the time left, so the clocks of both sides do not have to agree', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const requests: any[] = []
+    port2.addEventListener('message', (event: MessageEvent) => requests.push(event.data.data))
+    provide({ work: () => 'done' }, port2 as PostMessageEndpoint)
+    const remote = consume<{ work: () => string }>(port1 as PostMessageEndpoint, { timeout: 2 })
+
+    // The consumer's clock is a minute behind while it sends the call
+    const now = Date.now
+    Date.now = () => now() - 60_000
+    const result = remote.work()
+    Date.now = now
+
+    expect(await result).toBe('done')
+    expect(requests.find(request => request?.operationType === 'call')).toMatchObject({ timeLeft: 2000 })
+    port1.close()
+    port2.close()
+  })
+
+  it('should abort calls that overrun the budget of their path', async () => {
+    let reason: unknown
+    const api = {
+      slow: () => new Promise((_resolve) => {
+        const { signal } = getCallContext()!
+        signal.addEventListener('abort', () => { reason = signal.reason })
+      }),
+      fast: () => 'done'
+    }
+    const { remote, close } = setup(api, { budgets: { slow: 20, '*': 1000 } })
+
+    await expect(remote.slow()).rejects.toThrow('DEADLINE EXCEEDED')
+    expect(reason).toEqual(expect.objectContaining({ message: expect.stringContaining('DEADLINE EXCEEDED') }))
+    expect(await remote.fast()).toBe('done')
+    close()
+  })
+
+  it('should apply the fallback budget to paths without their own', async () => {
+    const api = { slow: () => new Promise(resolve => setTimeout(resolve, 200)) }
+    const { remote, close } = setup(api, { budgets: { '*': 20 } })
+
+    await expect(remote.slow()).rejects.toThrow('DEADLINE EXCEEDED')
+    close()
+  })
+
+  it('should pass the remaining budget on to nested remote calls', async () => {
+    const inner = setup({ deadline: () => getCallContext()?.deadline })
+    const outer = setup({
+      check: async () => {
+        const own = getCallContext()?.deadline
+        const nested = await inner.remote.deadline()
+        return { own, nested }
+      }
+    }, { budgets: { check: 5000 } })
+
+    const { own, nested } = await outer.remote.check()
+
+    expect(own).toEqual(expect.any(Number))
+    // The time the nested call spends in transit is not taken off
+    expect(nested).toBeGreaterThanOrEqual(own!)
+    expect(nested).toBeLessThanOrEqual(own! + 100)
+    inner.close()
+    outer.close()
+  })
+
+  it('should pass the deadline on to nested remote calls made after an await', async () => {
+    const inner = setup({ deadline: () => getCallContext()?.deadline })
+    const outer = setup({
+      check: async () => {
+        const first = await inner.remote.deadline()
+        const second = await inner.remote.deadline()
+        return { own: getCallContext()?.deadline, first, second }
+      }
+    }, { budgets: { check: 5000 } })
+
+    const { own, first, second } = await outer.remote.check()
+
+    expect(own).toEqual(expect.any(Number))
+    expect(first).toBeGreaterThanOrEqual(own!)
+    expect(first).toBeLessThanOrEqual(own! + 100)
+    expect(second).toBeGreaterThanOrEqual(own!)
+    expect(second).toBeLessThanOrEqual(own! + 100)
+    inner.close()
+    outer.close()
+  })
+
+  it('should reject calls locally and on the provider once the deadline passed', async () => {
+    let calls = 0
+    const { port1, port2 } = new MessageChannel()
+    provide({ work: () => ++calls }, port2 as PostMessageEndpoint)
+    // Holds calls back until their deadline has passed
+    const remote = consume<{ work: () => number }>(port1 as PostMessageEndpoint, {
+      interceptors: [async (request, next) => {
+        await new Promise(resolve => setTimeout(resolve, 50))
+        return next(request)
+      }]
+    })
+
+    await expect(withOptions(remote, { deadline: Date.now() + 20 }).work()).rejects.toThrow('DEADLINE EXCEEDED')
+    await new Promise(resolve => setTimeout(resolve, 100))
+
+    expect(calls).toBe(0)
+    expect(await remote.work()).toBe(1)
+    port1.close()
+    port2.close()
+  })
+})
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, createEncryptedEndpoint, createSendingEndpoint, provide } from '../src/index'
+import { collect, createEndpointPair, retained, waitFor, type Recorded } from './test-utils'
+
+const dataFrames = (end: Recorded) => end.frames.filter((frame): frame is { encryption: 'data', epoch: number, seq: number, payload: Uint8Array } =>
+  (frame as { encryption?: string }).encryption === 'data')
+
+describe('createEncryptedEndpoint', () => {
+  afterEach(() => { retained.length = 0 })
+
+  it('should encrypt every message and queue them until the keys are exchanged', async () => {
+    const [a, b] = createEndpointPair()
+    const sender = createEncryptedEndpoint(a)
+    const received = collect(createEncryptedEndpoint(b))
+
+    sender.postMessage({ secret: 'first' })
+    sender.postMessage({ secret: 'second', big: 2n ** 60n })
+
+    await waitFor(() => received.length === 2)
+    expect(received).toEqual([{ secret: 'first' }, { secret: 'second', big: 2n ** 60n }])
+    expect(dataFrames(a).map(({ seq }) => seq)).toEqual([1, 2])
+    expect(new TextDecoder().decode(dataFrames(a)[0]!.payload)).not.toContain('first')
+  })
+
+  it('should drop tampered, replayed and unencrypted messages', async () => {
+    const [a, b] = createEndpointPair()
+    const sender = createEncryptedEndpoint(a)
+    const received = collect(createEncryptedEndpoint(b))
+
+    sender.postMessage('original')
+    await waitFor(() => received.length === 1)
+    const [frame] = dataFrames(a)
+    const payload = new Uint8Array(frame!.payload)
+    payload[0] = (payload[0] ?? 0) === 0 ? 1 : 0
+
+    a.postMessage(frame)
+    a.postMessage({ encryption: 'data', epoch: frame!.epoch, seq: 2, payload })
+    a.postMessage({ encryption: 'data', epoch: frame!.epoch, seq: 2, payload: frame!.payload })
+    a.postMessage('plaintext')
+    sender.postMessage('next')
+
+    await waitFor(() => received.length === 2)
+    expect(received).toEqual(['original', 'next'])
+  })
+
+  it('should deliver a frame that arrives twice at once only once', async () => {
+    const [a, b] = createEndpointPair()
+    // A relay that sends every data frame twice
+    const duplicating: PostMessageEndpoint = {
+      postMessage: (data: unknown) => {
+        a.postMessage(data)
+        if ((data as { encryption?: string }).encryption === 'data') {
+          a.postMessage(data)
+        }
+      },
+      addEventListener: a.addEventListener,
+      removeEventListener: a.removeEventListener
+    }
+    const sender = createEncryptedEndpoint(duplicating)
+    const received = collect(createEncryptedEndpoint(b))
+
+    sender.postMessage('first')
+    sender.postMessage('second')
+    await waitFor(() => received.length >= 2)
+    sender.postMessage('last')
+
+    await waitFor(() => received.includes('last'))
+    expect(received).toEqual(['first', 'second', 'last'])
+  })
+
+  it('should only exchange messages with peers that know the same secret', async () => {
+    const [a, b] = createEndpointPair()
+    const sender = createEncryptedEndpoint(a, { secret: 'shared' })
+    const received = collect(createEncryptedEndpoint(b, { secret: 'other' }))
+    const [c, d] = createEndpointPair()
+    const trusted = createEncryptedEndpoint(c, { secret: new TextEncoder().encode('shared') })
+    const trustedReceived = collect(createEncryptedEndpoint(d, { secret: 'shared' }))
+
+    sender.postMessage('secret')
+    trusted.postMessage('secret')
+
+    await waitFor(() => trustedReceived.length === 1 && dataFrames(a).length === 1)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(trustedReceived).toEqual(['secret'])
+    expect(received).toEqual([])
+  })
+
+  it('should rotate keys', async () => {
+    const [a, b] = createEndpointPair()
+    const sender = createEncryptedEndpoint(a)
+    const receiver = createEncryptedEndpoint(b)
+    const received = collect(receiver)
+    const answers = collect(sender)
+
+    sender.postMessage(1)
+    await sender.rotateKey()
+    sender.postMessage(2)
+    receiver.postMessage('answer')
+
+    await waitFor(() => received.length === 2 && answers.length === 1)
+    expect(received).toEqual([1, 2])
+    expect(answers).toEqual(['answer'])
+    expect(dataFrames(a).map(({ epoch }) => epoch)).toEqual([0, 1])
+    expect(dataFrames(b).map(({ epoch }) => epoch)).toEqual([1])
+  })
+
+  it('should carry RPC over JSON codec endpoints', async () => {
+    const transports = createEndpointPair().map(({ postMessage, addEventListener, removeEventListener }) => ({ send: postMessage, addEventListener, removeEventListener }))
+    const api = { greet: (name: string) => `Hello ${name}` }
+    provide(api, createEncryptedEndpoint(createSendingEndpoint(transports[1]!, 'TEST', 'server')))
+    const remote = consume<typeof api>(createEncryptedEndpoint(createSendingEndpoint(transports[0]!, 'TEST', 'client')))
+
+    expect(await remote.greet('Alice')).toBe('Hello Alice')
+    expect(await remote.greet('Bob')).toBe('Hello Bob')
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, createJsonEndpoint, provide, registerErrorClass } from '../src/index'
+
+class NotFoundError extends Error {
+  override name = 'NotFoundError'
+  constructor(message: string, public resource: string) {
+    super(message)
+  }
+}
+registerErrorClass(NotFoundError)
+
+class UnregisteredError extends Error {
+  override name = 'UnregisteredError'
+}
+
+const createApi = () => ({
+  notFound: () => { throw new NotFoundError('missing', 'user/1') },
+  withCode: () => { throw Object.assign(new RangeError('too big'), { code: 'E_RANGE', limit: 10 }) },
+  withCause: () => { throw new Error('outer', { cause: new TypeError('inner') }) },
+  aggregate: () => { throw new AggregateError([new Error('a'), new SyntaxError('b')], 'many') },
+  unregistered: () => { throw new UnregisteredError('unknown class') },
+  selfCause: () => {
+    const error: Error = new Error('loop')
+    error.cause = error
+    throw error
+  }
+})
+
+const catchError = async (promise: PromiseLike<unknown>) => {
+  try {
+    await promise
+  } catch (error) {
+    return error as any
+  }
+  throw new Error('expected the call to fail')
+}
+
+describe.each([
+  ['structured clone', (endpoint: PostMessageEndpoint) => endpoint],
+  ['JSON', (endpoint: PostMessageEndpoint) => createJsonEndpoint(endpoint)]
+])('error serialization over %s', (_label, createEndpoint) => {
+  const setup = () => {
+    const { port1, port2 } = new MessageChannel()
+    provide(createApi(), createEndpoint(port2 as PostMessageEndpoint))
+    const remote = consume<ReturnType<typeof createApi>>(createEndpoint(port1 as PostMessageEndpoint))
+    return { remote, close: () => { port1.close(); port2.close() } }
+  }
+
+  it('should revive registered error classes with their fields', async () => {
+    const { remote, close } = setup()
+
+    const error = await catchError(remote.notFound())
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error.name).toBe('NotFoundError')
+    expect(error.message).toBe('missing')
+    expect(error.resource).toBe('user/1')
+    expect(error.stack).toContain('missing')
+
+    close()
+  })
+
+  it('should keep built-in classes, code and custom fields', async () => {
+    const { remote, close } = setup()
+
+    const error = await catchError(remote.withCode())
+    expect(error).toBeInstanceOf(RangeError)
+    expect(error.code).toBe('E_RANGE')
+    expect(error.limit).toBe(10)
+
+    close()
+  })
+
+  it('should keep the cause', async () => {
+    const { remote, close } = setup()
+
+    const error = await catchError(remote.withCause())
+    expect(error.message).toBe('outer')
+    expect(error.cause).toBeInstanceOf(TypeError)
+    expect(error.cause.message).toBe('inner')
+
+    close()
+  })
+
+  it('should keep the errors of an AggregateError', async () => {
+    const { remote, close } = setup()
+
+    const error = await catchError(remote.aggregate())
+    expect(error).toBeInstanceOf(AggregateError)
+    expect(error.errors.map((inner: Error) => inner.message)).toEqual(['a', 'b'])
+    expect(error.errors[1]).toBeInstanceOf(SyntaxError)
+
+    close()
+  })
+
+  it('should fall back to Error with the original name for unknown classes', async () => {
+    const { remote, close } = setup()
+
+    const error = await catchError(remote.unregistered())
+    expect(error).toBeInstanceOf(Error)
+    expect(error).not.toBeInstanceOf(UnregisteredError)
+    expect(error.name).toBe('UnregisteredError')
+
+    close()
+  })
+
+  it('should not recurse into an error that is its own cause', async () => {
+    const { remote, close } = setup()
+
+    const error = await catchError(remote.selfCause())
+    expect(error.message).toBe('loop')
+    expect(error.cause).toBeUndefined()
+
+    close()
+  })
+})
@@ -0,0 +1,105 @@
+import { setFlagsFromString } from 'node:v8'
+import { runInNewContext } from 'node:vm'
+import { describe, expect, it, vi } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, createEventSource, provide, releaseProxy } from '../src/index'
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 20))
+
+setFlagsFromString('--expose-gc')
+const gc: () => void = runInNewContext('gc')
+
+describe('createEventSource', () => {
+  it('should deliver emitted values to remote subscribers', async () => {
+    const changes = createEventSource<{ count: number }>()
+    const api = { onChange: changes.subscribable }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const received: number[] = []
+    const unsubscribe = await remote.onChange.subscribe(state => { received.push(state.count) })
+    expect(changes.listenerCount).toBe(1)
+
+    changes.emit({ count: 1 })
+    changes.emit({ count: 2 })
+    await flush()
+    expect(received).toEqual([1, 2])
+
+    await unsubscribe()
+    expect(changes.listenerCount).toBe(0)
+
+    changes.emit({ count: 3 })
+    await flush()
+    expect(received).toEqual([1, 2])
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should remove subscribers of a released consumer', async () => {
+    const changes = createEventSource<string>()
+    const api = { onChange: changes.subscribable }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const listener = vi.fn()
+    await remote.onChange.subscribe(listener)
+    changes.emit('first')
+    await flush()
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    releaseProxy(remote)
+    changes.emit('second')
+    await flush()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(changes.listenerCount).toBe(0)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should remove subscribers of a collected consumer', async () => {
+    const changes = createEventSource<string>()
+    const api = { onChange: changes.subscribable }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    // Nothing keeps the consumer once the subscription is made
+    const subscribe = async () => {
+      await consume<typeof api>(port1 as PostMessageEndpoint).onChange.subscribe(() => {})
+    }
+    await subscribe()
+    expect(changes.listenerCount).toBe(1)
+
+    for (let i = 0; i < 20 && changes.listenerCount > 0; i++) {
+      gc()
+      await flush()
+      changes.emit('value')
+      await flush()
+    }
+    expect(changes.listenerCount).toBe(0)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should remove local listeners that throw', () => {
+    const changes = createEventSource<number>()
+    const failing = vi.fn(() => { throw new Error('listener failed') })
+    const working = vi.fn()
+
+    changes.subscribable.subscribe(failing)
+    changes.subscribable.subscribe(working)
+    changes.emit(1)
+    changes.emit(2)
+
+    expect(failing).toHaveBeenCalledTimes(1)
+    expect(working).toHaveBeenCalledTimes(2)
+    expect(changes.listenerCount).toBe(1)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, getPeerInfo, provide, version } from '../src/index'
+
+// Rewrites every outgoing message of an endpoint, to act as a peer that speaks another protocol
+const rewriteOutgoing = (endpoint: PostMessageEndpoint, rewrite: (data: any) => any): PostMessageEndpoint => ({
+  postMessage: (data, transfer) => endpoint.postMessage(rewrite(data), transfer),
+  addEventListener: (type, listener) => endpoint.addEventListener(type, listener),
+  removeEventListener: (type, listener) => endpoint.removeEventListener(type, listener)
+})
+
+const replaceDeep = (data: any, key: string, from: unknown, to: unknown): any => {
+  if (Array.isArray(data)) {
+    return data.map(item => replaceDeep(item, key, from, to))
+  }
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, k === key && v === from ? to : replaceDeep(v, key, from, to)]))
+  }
+  return data
+}
+
+describe('handshake', () => {
+  it('should hold calls back until the handshake completes', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide({ add: (a: number, b: number) => a + b }, port2 as PostMessageEndpoint)
+    const remote = consume<{ add: (a: number, b: number) => number }>(port1 as PostMessageEndpoint, { handshake: true })
+
+    expect(await remote.add(1, 2)).toBe(3)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should report the versions and capabilities of the provider', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide({}, port2 as PostMessageEndpoint)
+    const remote = consume<object>(port1 as PostMessageEndpoint)
+
+    const peer = await getPeerInfo(remote)
+    expect(peer.version).toBe(version)
+    expect(peer.protocol).toBe(1)
+    expect(peer.plugins).toEqual(expect.arrayContaining(['Date', 'Error']))
+    expect(peer.codecs).toContain('json')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should reach a provider that starts listening late', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const remote = consume<{ ready: () => boolean }>(port1 as PostMessageEndpoint, { handshake: true })
+    const result = remote.ready()
+
+    await new Promise(resolve => setTimeout(resolve, 50))
+    provide({ ready: () => true }, port2 as PostMessageEndpoint)
+
+    expect(await result).toBe(true)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should fail every call if the protocols do not match', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide({ add: (a: number, b: number) => a + b }, port2 as PostMessageEndpoint)
+    const endpoint = rewriteOutgoing(port1 as PostMessageEndpoint, data => replaceDeep(data, 'protocol', 1, 99))
+    const remote = consume<{ add: (a: number, b: number) => number }>(endpoint, { handshake: true })
+
+    await expect(remote.add(1, 2)).rejects.toThrow(/PROTOCOL MISMATCH.*protocol 99/)
+    await expect(remote.add(3, 4)).rejects.toThrow(/PROTOCOL MISMATCH/)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should treat a provider without handshake support as a mismatch', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide({}, port2 as PostMessageEndpoint)
+    const endpoint = rewriteOutgoing(port1 as PostMessageEndpoint, data => replaceDeep(data, 'operationType', 'hello', 'greet'))
+    const remote = consume<object>(endpoint)
+
+    await expect(getPeerInfo(remote)).rejects.toThrow(/does not support the handshake/)
+
+    port1.close()
+    port2.close()
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import type { Interceptor } from '../src/index'
+import { setup } from './test-utils'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('interceptors', () => {
+  it('should run interceptors in order on both sides', async () => {
+    const log: string[] = []
+    const logging = (name: string): Interceptor => async (request, next) => {
+      log.push(`${name}:${request.operationType}`)
+      const response = await next(request)
+      log.push(`${name}:${response.resultType}`)
+      return response
+    }
+
+    const { remote, close } = setup(
+      { add: (a: number, b: number) => a + b },
+      { interceptors: [logging('provider-a'), logging('provider-b')] },
+      { interceptors: [logging('consumer')] }
+    )
+
+    expect(await remote.add(1, 2)).toBe(3)
+    expect(log).toEqual([
+      'consumer:call',
+      'provider-a:call',
+      'provider-b:call',
+      'provider-b:result',
+      'provider-a:result',
+      'consumer:result'
+    ])
+
+    close()
+  })
+
+  it('should let provider interceptors rewrite args and results', async () => {
+    const { remote, close } = setup({ echo: (value: string) => value }, {
+      interceptors: [async (request, next) => {
+        const response = await next({ ...request, args: request.args.map(arg => `${arg}!`) })
+        return { ...response, result: `<${response.result}>` }
+      }]
+    })
+
+    expect(await remote.echo('hi')).toBe('<hi!>')
+
+    close()
+  })
+
+  it('should short-circuit without invoking the provided function', async () => {
+    let calls = 0
+    const { remote, close } = setup({ secret: () => { calls++; return 42 } }, {
+      interceptors: [(request, next) => request.propertyPath === '/secret'
+        ? { resultType: 'error', result: new Error('unauthorized') }
+        : next(request)]
+    })
+
+    await expect(remote.secret()).rejects.toThrow('unauthorized')
+    expect(calls).toBe(0)
+
+    close()
+  })
+
+  it('should answer from a consumer interceptor without sending the request', async () => {
+    let calls = 0
+    const cache = new Map<string, unknown>()
+    const { remote, close } = setup({ load: (id: string) => { calls++; return `item ${id}` } }, {}, {
+      interceptors: [async (request, next) => {
+        const key = `${request.propertyPath}:${request.args.join(',')}`
+        if (cache.has(key)) { return { resultType: 'result', result: cache.get(key) } }
+        const response = await next(request)
+        if (response.resultType === 'result') { cache.set(key, response.result) }
+        return response
+      }]
+    })
+
+    expect(await remote.load('1')).toBe('item 1')
+    expect(await remote.load('1')).toBe('item 1')
+    expect(calls).toBe(1)
+
+    close()
+  })
+
+  it('should decorate errors and reject when an interceptor throws', async () => {
+    const { remote, close } = setup({ fail: () => { throw new Error('boom') }, ok: () => 1 }, {
+      interceptors: [async (request, next) => {
+        if (request.propertyPath === '/ok') { throw new Error('interceptor failed') }
+        const response = await next(request)
+        return response.resultType === 'error' ? { resultType: 'error', result: new Error(`fail: ${response.result.message}`) } : response
+      }]
+    })
+
+    await expect(remote.fail()).rejects.toThrow('fail: boom')
+    await expect(remote.ok()).rejects.toThrow('interceptor failed')
+
+    close()
+  })
+
+  it('should keep pipelined operations behind their base call', async () => {
+    const slowFirstCall: Interceptor = async (request, next) => {
+      if (!request.resultOf) { await delay(20) }
+      return next(request)
+    }
+    const api = { getRepo: (name: string) => ({ getBranch: (branch: string) => `${name}/${branch}` }) }
+    const { remote, close } = setup(api, { interceptors: [slowFirstCall] }, { interceptors: [slowFirstCall] })
+
+    expect(await remote.getRepo('x').getBranch('main')).toBe('x/main')
+
+    close()
+  })
+})
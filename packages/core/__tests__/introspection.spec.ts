@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { remoteDelete, remoteDescriptor, remoteHas, remoteKeys } from '../src/index'
+import { setup } from './test-utils'
+
+describe('remote introspection', () => {
+  it('should list the keys of a remote object', async () => {
+    const { remote, close } = setup({ settings: { theme: 'dark', language: 'en' } })
+
+    expect(await remoteKeys(remote.settings)).toEqual(['theme', 'language'])
+    expect(await remoteKeys(remote)).toEqual(['settings'])
+
+    close()
+  })
+
+  it('should check for properties like the in operator', async () => {
+    class Service {
+      run() { return 1 }
+    }
+    const { remote, close } = setup({ service: new Service() })
+
+    expect(await remoteHas(remote, 'service')).toBe(true)
+    expect(await remoteHas(remote.service, 'run')).toBe(true)
+    expect(await remoteHas(remote.service, 'missing')).toBe(false)
+    expect(await remoteHas(remote.service, 'constructor')).toBe(false)
+
+    close()
+  })
+
+  it('should describe own properties', async () => {
+    const api = {
+      config: Object.defineProperties({}, {
+        fixed: { value: 1, enumerable: true },
+        computed: { get: () => 2, configurable: true }
+      })
+    }
+    const { remote, close } = setup(api)
+
+    expect(await remoteDescriptor(remote.config, 'fixed')).toEqual({ configurable: false, enumerable: true, writable: false, accessor: false })
+    expect(await remoteDescriptor(remote.config, 'computed')).toEqual({ configurable: true, enumerable: false, writable: false, accessor: true })
+    expect(await remoteDescriptor(remote.config, 'missing')).toBeUndefined()
+
+    close()
+  })
+
+  it('should delete properties when writing is allowed', async () => {
+    const api = { cache: { a: 1, b: 2 } as Record<string, number> }
+    const { remote, close } = setup(api, { allowWrite: true })
+
+    await remoteDelete(remote.cache, 'a')
+    expect(api.cache).toEqual({ b: 2 })
+
+    delete remote.cache.b
+    await expect.poll(() => Object.keys(api.cache)).toEqual([])
+
+    close()
+  })
+
+  it('should reject deletes without allowWrite and on forbidden or readonly properties', async () => {
+    const readonly = { cache: Object.freeze({ a: 1 }) }
+    const denied = setup({ cache: { a: 1 } })
+    const frozen = setup(readonly, { allowWrite: true })
+
+    await expect(remoteDelete(denied.remote.cache, 'a')).rejects.toThrow('WRITE NOT ALLOWED')
+    await expect(remoteDelete(frozen.remote, '__proto__')).rejects.toThrow('forbidden')
+    await expect(remoteDelete(frozen.remote.cache, 'a')).rejects.toThrow('READONLY')
+
+    denied.close()
+    frozen.close()
+  })
+
+  it('should throw for values that are not remote proxies', () => {
+    expect(() => remoteKeys({})).toThrow('NOT A REMOTE PROXY')
+  })
+})
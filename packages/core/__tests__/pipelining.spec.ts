@@ -0,0 +1,211 @@
+import { setFlagsFromString } from 'node:v8'
+import { runInNewContext } from 'node:vm'
+import { describe, expect, it, vi } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, provide } from '../src/index'
+
+setFlagsFromString('--expose-gc')
+const gc: () => void = runInNewContext('gc')
+const flush = () => new Promise(resolve => setTimeout(resolve, 10))
+
+class Counter {
+  value = 0
+  increment = () => ++this.value
+}
+
+describe('promise pipelining', () => {
+  it('should send chained calls before the first result arrives', async () => {
+    const { port1, port2 } = new MessageChannel()
+    let receivedCalls = 0
+    port2.addEventListener('message', (event: MessageEvent) => {
+      if (event.data.data?.operationType === 'call') {receivedCalls++}
+    })
+
+    let callsWhenResolved = 0
+    const api = {
+      getRepo: (name: string) => new Promise<{ getBranch: (branch: string) => { commits: () => string[] } }>(resolve => {
+        setTimeout(() => {
+          callsWhenResolved = receivedCalls
+          resolve({
+            getBranch: (branch: string) => ({
+              commits: () => [`${name}/${branch}/1`, `${name}/${branch}/2`]
+            })
+          })
+        }, 30)
+      })
+    }
+
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    expect(await remote.getRepo('x').getBranch('main').commits()).toEqual(['x/main/1', 'x/main/2'])
+    expect(callsWhenResolved).toBe(3)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should read properties of a pending result', async () => {
+    const api = {
+      getUser: () => ({ name: 'Ada', address: { city: 'London' } })
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    expect(await remote.getUser().address.city).toBe('London')
+    expect(await remote.getUser()).toEqual({ name: 'Ada', address: { city: 'London' } })
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should pipeline on constructed instances', async () => {
+    const api = { Counter }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const counter: any = new remote.Counter()
+    expect(await counter.increment()).toBe(1)
+    expect(await counter.increment()).toBe(2)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should reject chained operations when the base call fails', async () => {
+    const api = {
+      getRepo: (): { name: string } => { throw new Error('no repo') }
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    await expect(remote.getRepo().name).rejects.toThrow('no repo')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should keep results for as long as their proxies live', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    try {
+      const { port1, port2 } = new MessageChannel()
+      provide({ Counter }, port2 as PostMessageEndpoint)
+      const remote = consume<{ Counter: typeof Counter }>(port1 as PostMessageEndpoint)
+
+      const counter: any = new remote.Counter()
+      expect(await counter.increment()).toBe(1)
+      vi.advanceTimersByTime(60_000)
+      expect(await counter.increment()).toBe(2)
+
+      port1.close()
+      port2.close()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should let results that are only awaited expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      const { port1, port2 } = new MessageChannel()
+      const registrations: unknown[][] = []
+      port2.addEventListener('message', (event: MessageEvent) => {
+        if (event.data.data?.operationType === 'gc-register') {registrations.push(event.data.data.args)}
+      })
+      const api = { getPoint: () => ({ x: 1 }) }
+      provide(api, port2 as PostMessageEndpoint)
+      const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+      const point: any = remote.getPoint()
+      expect(await point).toEqual({ x: 1 })
+      expect(registrations.filter(args => args[1] !== undefined)).toEqual([])
+
+      vi.setSystemTime(Date.now() + 61_000)
+      expect(await remote.getPoint()).toEqual({ x: 1 })
+      await expect(point.x).rejects.toThrow('UNKNOWN PIPELINE RESULT')
+
+      port1.close()
+      port2.close()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should ignore registrations for results the provider does not know', async () => {
+    const { port1, port2 } = new MessageChannel()
+    let registration: any
+    port2.addEventListener('message', (event: MessageEvent) => {
+      if (event.data.data?.operationType === 'gc-register') {registration ??= event.data}
+    })
+    const responses: any[] = []
+    port1.addEventListener('message', (event: MessageEvent) => responses.push(event.data.data))
+    provide({ point: { x: 1 } }, port2 as PostMessageEndpoint)
+    const remote = consume<{ point: { x: number } }>(port1 as PostMessageEndpoint)
+    expect(await remote.point.x).toBe(1)
+
+    // A registration must not make the provider wait for a call that never arrives
+    const { consumerID } = registration.data
+    port1.postMessage({ ...registration, data: { ...registration.data, requestID: crypto.randomUUID(), args: [consumerID, 'unknown'] } })
+    port1.postMessage({ ...registration, data: { ...registration.data, requestID: 'probe', operationType: 'await', propertyPath: '/x', resultOf: 'unknown', args: [] } })
+    for (let i = 0; i < 20 && !responses.some(response => response?.requestID === 'probe'); i++) {
+      await flush()
+    }
+    expect(responses.find(response => response?.requestID === 'probe')).toMatchObject({ resultType: 'error' })
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should keep the consumer registered while it holds a result', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const handle = provide({ Counter }, port2 as PostMessageEndpoint)
+    // Only the instance outlives this function, the root proxy can be collected
+    const create = (): any => new (consume<{ Counter: typeof Counter }>(port1 as PostMessageEndpoint).Counter)()
+    let counter = create()
+
+    for (let i = 0; i < 5; i++) {
+      gc()
+      await flush()
+    }
+    expect(await counter.increment()).toBe(1)
+    expect(handle.consumerCount).toBe(1)
+
+    counter = undefined
+    for (let i = 0; i < 20 && handle.consumerCount > 0; i++) {
+      gc()
+      await flush()
+    }
+    expect(handle.consumerCount).toBe(0)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should settle chained calls whose base proxies were collected', async () => {
+    const api = {
+      getRepo: (name: string) => new Promise<{ getBranch: (branch: string) => { commits: () => string[] } }>(resolve => {
+        setTimeout(() => resolve({ getBranch: (branch: string) => ({ commits: () => [`${name}/${branch}`] }) }), 30)
+      })
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const commits = remote.getRepo('x').getBranch('main').commits()
+    for (let i = 0; i < 5; i++) {
+      gc()
+      await flush()
+    }
+    expect(await commits).toEqual(['x/main'])
+
+    port1.close()
+    port2.close()
+  })
+})
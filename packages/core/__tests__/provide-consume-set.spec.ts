@@ -1,6 +1,12 @@
-import { describe, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 import type { PostMessageEndpoint } from '../src/index';
-import { consume, provide } from '../src/index'
+import { consume, provide, remoteSet } from '../src/index'
+import { setup } from './test-utils'
+
+const createApi = () => ({
+  config: { level: 1 },
+  frozen: Object.freeze({ level: 1 })
+})
 
 describe('provide/consume set operation', () => {
   it('should update values on remote objects', async () => {
@@ -28,4 +34,64 @@ describe('provide/consume set operation', () => {
     port1.close()
     port2.close()
   })
-})
\ No newline at end of file
+
+  it('should wait for the provider with remoteSet()', async () => {
+    const api = createApi()
+    const { remote, close } = setup(api, { allowWrite: true })
+
+    await expect(remoteSet(remote.config, 'level', 3)).resolves.toBe(true)
+    expect(api.config.level).toBe(3)
+
+    close()
+  })
+
+  it('should reject remoteSet() when the provider refuses the write', async () => {
+    const writable = setup(createApi(), { allowWrite: true })
+    const readonlyApi = createApi()
+    const readonly = setup(readonlyApi)
+
+    await expect(remoteSet(readonly.remote.config, 'level', 3)).rejects.toThrow('WRITE NOT ALLOWED')
+    await expect(remoteSet(writable.remote.frozen, 'level', 3)).rejects.toThrow('READONLY')
+    await expect(remoteSet(writable.remote.config, '__proto__', {})).rejects.toThrow('forbidden')
+    expect(readonlyApi.config.level).toBe(1)
+
+    writable.close()
+    readonly.close()
+  })
+
+  it('should pass errors of plain assignments and deletes to onError', async () => {
+    const errors: unknown[][] = []
+    const { remote, close } = setup(createApi(), {}, { onError: (error, operation, path) => errors.push([operation, path, (error as Error).message]) });
+
+    (remote.config as any).level = 3
+    delete (remote.config as any).level
+
+    await expect.poll(() => errors.length).toBe(2)
+    expect(errors).toEqual(expect.arrayContaining([
+      ['set', 'config.level', expect.stringContaining('WRITE NOT ALLOWED')],
+      ['delete', 'config.level', expect.stringContaining('WRITE NOT ALLOWED')]
+    ]))
+
+    close()
+  })
+
+  it('should log errors of plain assignments and deletes without onError', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    try {
+      const { remote, close } = setup(createApi());
+
+      (remote.config as any).level = 3
+      delete (remote.config as any).level
+
+      await expect.poll(() => warn.mock.calls.length).toBe(2)
+      expect(warn.mock.calls.map(([message]) => message)).toEqual(expect.arrayContaining([
+        expect.stringContaining("set of 'config.level'"),
+        expect.stringContaining("delete of 'config.level'")
+      ]))
+
+      close()
+    } finally {
+      warn.mockRestore()
+    }
+  })
+})
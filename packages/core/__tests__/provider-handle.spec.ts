@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, provide, releaseProxy } from '../src/index'
+
+describe('provide() handle', () => {
+  it('should reject requests with E013 after revoke', async () => {
+    const api = { add: (a: number, b: number) => a + b }
+
+    const { port1, port2 } = new MessageChannel()
+    const handle = provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    expect(handle.isActive).toBe(true)
+    expect(await remote.add(1, 2)).toBe(3)
+
+    handle.revoke()
+    expect(handle.isActive).toBe(false)
+
+    await expect(remote.add(1, 2)).rejects.toThrow('PROVIDER REVOKED')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should stop listening on revoke but keep rejecting requests with E013', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    try {
+      const { port1, port2 } = new MessageChannel()
+      const handle = provide({ add: (a: number, b: number) => a + b }, port2 as PostMessageEndpoint)
+      const remote = consume<{ add: (a: number, b: number) => number }>(port1 as PostMessageEndpoint)
+      const onIdle = vi.fn()
+      handle.onIdle(onIdle)
+
+      handle.revoke()
+      expect(onIdle).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(10 * 60 * 1000)
+      await expect(remote.add(1, 2)).rejects.toThrow('PROVIDER REVOKED')
+
+      port1.close()
+      port2.close()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should count consumers and report idle once they are gone', async () => {
+    const api = { value: 1 }
+
+    const { port1, port2 } = new MessageChannel()
+    const handle = provide(api, port2 as PostMessageEndpoint)
+    const onIdle = vi.fn()
+    handle.onIdle(onIdle)
+
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+    expect(await remote.value).toBe(1)
+    expect(handle.consumerCount).toBe(1)
+
+    releaseProxy(remote)
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(handle.consumerCount).toBe(0)
+    expect(handle.isActive).toBe(false)
+    expect(onIdle).toHaveBeenCalledTimes(1)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should not call unregistered idle callbacks', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const handle = provide({ value: 1 }, port2 as PostMessageEndpoint)
+    const onIdle = vi.fn()
+    const off = handle.onIdle(onIdle)
+    off()
+
+    const remote = consume<{ value: number }>(port1 as PostMessageEndpoint)
+    expect(await remote.value).toBe(1)
+    releaseProxy(remote)
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(onIdle).not.toHaveBeenCalled()
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should keep a consumer registered until its last proxy is collected', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const handle = provide({ value: 1 }, port2 as PostMessageEndpoint)
+    const consumerID = 'consumer'
+    // Sends what a consumer sends when proxies are created and collected
+    const notify = (operationType: 'gc-register' | 'gc-collect') => port1.postMessage({
+      channelId: '',
+      data: { requestID: crypto.randomUUID(), operationType, propertyPath: '', args: [{ type: 'raw', value: consumerID }], consumerID, realmId: 'test' }
+    })
+    const flush = () => new Promise(resolve => setTimeout(resolve, 10))
+
+    notify('gc-register')
+    notify('gc-register')
+    notify('gc-collect')
+    await flush()
+    expect(handle.consumerCount).toBe(1)
+    expect(handle.isActive).toBe(true)
+
+    notify('gc-collect')
+    await flush()
+    expect(handle.consumerCount).toBe(0)
+    expect(handle.isActive).toBe(false)
+
+    port1.close()
+    port2.close()
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, provide, releaseProxy } from '../src/index'
+import { createRateLimiter } from '../src/rate-limit'
+import { setup } from './test-utils'
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('rate limiting', () => {
+  it('should reject calls beyond the burst of a consumer', async () => {
+    const { remote, handle, close } = setup({ ping: () => true }, { rateLimit: { consumer: { perSecond: 1, burst: 2 } } })
+
+    const results = await Promise.allSettled([remote.ping(), remote.ping(), remote.ping()])
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected'])
+    expect((results[2] as PromiseRejectedResult).reason.message).toMatch(/^RATE LIMITED/)
+    expect(handle.getRateLimitStats()).toMatchObject({ allowed: 2, rejected: 1 })
+
+    close()
+  })
+
+  it('should refill tokens over time', async () => {
+    const { remote, close } = setup({ ping: () => true }, { rateLimit: { consumer: { perSecond: 20, burst: 1 } } })
+
+    expect(await remote.ping()).toBe(true)
+    await expect(remote.ping()).rejects.toThrow('RATE LIMITED')
+    await wait(60)
+    expect(await remote.ping()).toBe(true)
+
+    close()
+  })
+
+  it('should limit paths separately', async () => {
+    const api = { cheap: () => 1, reports: { generate: () => 2 } }
+    const { remote, handle, close } = setup(api, { rateLimit: { paths: { 'reports.generate': { perSecond: 1 } } } })
+
+    expect(await remote.reports.generate()).toBe(2)
+    await expect(remote.reports.generate()).rejects.toThrow('RATE LIMITED')
+    expect(await Promise.all([remote.cheap(), remote.cheap(), remote.cheap()])).toEqual([1, 1, 1])
+
+    expect(handle.getRateLimitStats().paths).toEqual({ 'reports.generate': { allowed: 1, rejected: 1 } })
+
+    close()
+  })
+
+  it('should share the limit of a realm between its consumers', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide({ ping: () => true }, port2 as PostMessageEndpoint, { rateLimit: { realm: { perSecond: 1, burst: 2 } } })
+    const first = consume<{ ping: () => boolean }>(port1 as PostMessageEndpoint)
+    const second = consume<{ ping: () => boolean }>(port1 as PostMessageEndpoint)
+
+    expect(await first.ping()).toBe(true)
+    expect(await second.ping()).toBe(true)
+    await expect(first.ping()).rejects.toThrow('RATE LIMITED')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should count per consumer until the consumer is gone', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const handle = provide({ ping: () => true }, port2 as PostMessageEndpoint, { rateLimit: { consumer: { perSecond: 100 } } })
+    const first = consume<{ ping: () => boolean }>(port1 as PostMessageEndpoint)
+    const second = consume<{ ping: () => boolean }>(port1 as PostMessageEndpoint)
+
+    await first.ping()
+    await second.ping()
+    await second.ping()
+    const counts = Object.values(handle.getRateLimitStats().consumers).map(counter => counter.allowed)
+    expect(counts.sort()).toEqual([1, 2])
+
+    releaseProxy(first)
+    await wait(10)
+    expect(Object.values(handle.getRateLimitStats().consumers)).toEqual([{ allowed: 2, rejected: 0 }])
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should hold back consumers that send every request with a new ID by the limit of the provider', async () => {
+    const { port1, port2 } = new MessageChannel()
+    provide({ ping: () => true }, port2 as PostMessageEndpoint, { rateLimit: { provider: { perSecond: 1, burst: 2 }, consumer: { perSecond: 1 } } })
+    const consumers = [0, 1, 2].map(() => consume<{ ping: () => boolean }>(port1 as PostMessageEndpoint))
+
+    const results = await Promise.allSettled(consumers.map(remote => remote.ping()))
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected'])
+    port1.close()
+    port2.close()
+  })
+
+  it('should limit calls on objects handed out by await like calls on the provider', async () => {
+    const api = { ping: () => true, reports: { generate: () => 'report' } }
+    const { remote, handle, close } = setup(api, { rateLimit: { consumer: { perSecond: 1, burst: 3 }, paths: { 'reports.generate': { perSecond: 1 } } } })
+
+    const reports = await remote.reports
+    expect(await reports.generate()).toBe('report')
+    await expect(reports.generate()).rejects.toThrow('RATE LIMITED')
+    expect(await remote.ping()).toBe(true)
+    await expect(remote.ping()).rejects.toThrow('RATE LIMITED')
+
+    const { consumers, paths } = handle.getRateLimitStats()
+    expect(Object.values(consumers)).toEqual([{ allowed: 3, rejected: 2 }])
+    expect(paths).toEqual({ 'reports.generate': { allowed: 1, rejected: 1 } })
+
+    close()
+  })
+
+  it('should only keep the counters of the consumers with the latest requests', () => {
+    const limiter = createRateLimiter({ consumer: { perSecond: 1 } })
+
+    for (let index = 0; index <= 1000; index++) {
+      limiter.take({ consumerID: `consumer-${index}`, realmId: 'realm' }, undefined)
+    }
+
+    const { allowed, consumers } = limiter.getStats()
+    expect(allowed).toBe(1001)
+    expect(Object.keys(consumers)).toHaveLength(1000)
+    expect(consumers['consumer-0']).toBeUndefined()
+    expect(consumers['consumer-1000']).toEqual({ allowed: 1, rejected: 0 })
+  })
+
+  it('should drop the buckets of the keys with the oldest requests beyond 10000', () => {
+    const limiter = createRateLimiter({ consumer: { perSecond: 0.001, burst: 1 } })
+
+    expect(limiter.take({ consumerID: 'consumer-0', realmId: 'realm' }, undefined)).toBe(true)
+    expect(limiter.take({ consumerID: 'consumer-0', realmId: 'realm' }, undefined)).toBe(false)
+    for (let index = 1; index <= 10_000; index++) {
+      limiter.take({ consumerID: `consumer-${index}`, realmId: 'realm' }, undefined)
+    }
+
+    expect(limiter.take({ consumerID: 'consumer-0', realmId: 'realm' }, undefined)).toBe(true)
+  })
+
+  it('should not create buckets for requests the provider limit rejects', () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      const limiter = createRateLimiter({ provider: { perSecond: 1 }, consumer: { perSecond: 0.001, burst: 1 } })
+
+      expect(limiter.take({ consumerID: 'consumer-0', realmId: 'realm' }, undefined)).toBe(true)
+      for (let index = 1; index <= 10_000; index++) {
+        limiter.take({ consumerID: `consumer-${index}`, realmId: 'realm' }, undefined)
+      }
+      vi.setSystemTime(Date.now() + 1000)
+
+      // The bucket of the first consumer was not pushed out by the rejected requests
+      expect(limiter.take({ consumerID: 'consumer-0', realmId: 'realm' }, undefined)).toBe(false)
+      expect(limiter.getStats()).toMatchObject({ allowed: 1, rejected: 10_001 })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, provide, releaseProxy } from '../src/index'
+
+describe('releaseProxy', () => {
+  it('should reject in-flight calls with E012', async () => {
+    const api = {
+      slow: () => new Promise(resolve => setTimeout(() => resolve('done'), 50))
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const pending = remote.slow()
+    releaseProxy(remote)
+
+    await expect(pending).rejects.toThrow('PROXY RELEASED')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should reject calls made after release', async () => {
+    const api = { add: (a: number, b: number) => a + b }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    expect(await remote.add(1, 2)).toBe(3)
+    // Releasing through a nested proxy releases the whole consumer
+    releaseProxy(remote.add)
+
+    await expect(remote.add(1, 2)).rejects.toThrow('PROXY RELEASED')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should notify the provider with gc-collect', () => {
+    const endpoint: PostMessageEndpoint = {
+      postMessage: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn()
+    }
+
+    const remote = consume(endpoint)
+    releaseProxy(remote)
+    releaseProxy(remote)
+
+    const operations = (endpoint.postMessage as any).mock.calls.map((call: any) => call[0].data.operationType)
+    expect(operations.filter((op: string) => op === 'gc-collect')).toHaveLength(1)
+  })
+
+  it('should support Symbol.dispose and Symbol.asyncDispose', async () => {
+    const api = { value: 42 }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+    expect(await remote.value).toBe(42)
+    remote[Symbol.dispose]()
+    await expect(remote.value).rejects.toThrow('PROXY RELEASED')
+
+    const other = consume<typeof api>(port1 as PostMessageEndpoint)
+    await other[Symbol.asyncDispose]()
+    await expect(other.value).rejects.toThrow('PROXY RELEASED')
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should ignore values that are not remote proxies', () => {
+    expect(() => releaseProxy({})).not.toThrow()
+    expect(() => releaseProxy(undefined)).not.toThrow()
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest'
+import { remoteHas } from '../src/index'
+import { setup } from './test-utils'
+
+describe('request limits', () => {
+  it('should reject too many arguments with the default limit', async () => {
+    const count = vi.fn((...args: number[]) => args.length)
+    const { remote } = setup({ count: (...args: number[]) => count(...args) })
+
+    expect(await remote.count(...Array.from({ length: 100 }, (_, i) => i))).toBe(100)
+    await expect(remote.count(...Array.from({ length: 101 }, (_, i) => i))).rejects.toThrow(/^TOO MANY ARGUMENTS/)
+    expect(count).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject property paths that are too deep', async () => {
+    const { remote } = setup({ a: { b: { c: () => 'deep' } } }, { limits: { maxPathDepth: 2 } })
+
+    await expect(remote.a.b.c()).rejects.toThrow(/^PATH TOO DEEP/)
+  })
+
+  it('should reject property names that are too long', async () => {
+    const name = 'x'.repeat(20)
+    const { remote } = setup<Record<string, () => number>>({ [name]: () => 1 }, { limits: { maxPropertyLength: 10 } })
+
+    await expect(remote[name]!()).rejects.toThrow(/^PROPERTY NAME TOO LONG/)
+    await expect(remoteHas(remote, name)).rejects.toThrow(/^PROPERTY NAME TOO LONG/)
+  })
+
+  it('should reject arguments that are too large, including nested values', async () => {
+    const echo = vi.fn((value: unknown) => value)
+    const { remote } = setup({ echo: (value: unknown) => echo(value) }, { limits: { maxArgSize: 1000 } })
+
+    expect(await remote.echo({ list: ['x'.repeat(100)] })).toEqual({ list: ['x'.repeat(100)] })
+    await expect(remote.echo({ list: ['x'.repeat(600)] })).rejects.toThrow(/^ARGUMENT TOO LARGE - Argument 0/)
+    await expect(remote.echo(new Error('x'.repeat(600)))).rejects.toThrow(/^ARGUMENT TOO LARGE/)
+    await expect(remote.echo(new Uint8Array(2000))).rejects.toThrow(/^ARGUMENT TOO LARGE/)
+    expect(echo).toHaveBeenCalledTimes(1)
+  })
+
+  it('should apply the limits to providers of wrapped values', async () => {
+    const { remote } = setup({ create: () => ({ sum: (...args: number[]) => args.reduce((a, b) => a + b, 0) }) }, { limits: { maxArgCount: 2 } })
+
+    const instance = await remote.create()
+    expect(await instance.sum(1, 2)).toBe(3)
+    await expect(instance.sum(1, 2, 3)).rejects.toThrow(/^TOO MANY ARGUMENTS/)
+  })
+
+  it('should lift a limit set to Infinity', async () => {
+    const { remote } = setup({ count: (...args: number[]) => args.length }, { limits: { maxArgCount: Infinity } })
+
+    expect(await remote.count(...Array.from({ length: 200 }, (_, i) => i))).toBe(200)
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import type { PostMessageEndpoint, RemoteCallRequest } from '../src/index'
+import { consume, provide, withOptions } from '../src/index'
+
+// Drops the messages the filter selects, like a flaky transport would
+const createLossyEndpoint = (endpoint: PostMessageEndpoint, shouldDrop: (data: any) => boolean): PostMessageEndpoint => ({
+  postMessage: (data, transfer) => shouldDrop(data) ? undefined : endpoint.postMessage(data, transfer),
+  addEventListener: (type, listener) => endpoint.addEventListener(type, listener),
+  removeEventListener: (type, listener) => endpoint.removeEventListener(type, listener)
+})
+
+const dropFirst = (type: 'call' | 'response') => {
+  let isDropped = false
+  return ({ data }: { data: RemoteCallRequest | { type: string } }) => {
+    const matches = type === 'response' ? 'type' in data && data.type === 'response' : 'operationType' in data && data.operationType === 'call'
+    if (matches && !isDropped) {
+      isDropped = true
+      return true
+    }
+    return false
+  }
+}
+
+const setup = <T>(api: T, drop: { request?: (data: any) => boolean, response?: (data: any) => boolean } = {}) => {
+  const { port1, port2 } = new MessageChannel()
+  const requests: RemoteCallRequest[] = []
+  const providerEndpoint = createLossyEndpoint(port2 as PostMessageEndpoint, drop.response ?? (() => false))
+  port2.addEventListener('message', (event) => {
+    const request = event.data.data
+    if (request?.operationType === 'call') {requests.push(request)}
+  })
+  provide(api, providerEndpoint)
+  const consumerEndpoint = createLossyEndpoint(port1 as PostMessageEndpoint, drop.request ?? (() => false))
+  const remote = consume<T>(consumerEndpoint, { timeout: 0.05, retry: { attempts: 3, delay: 5 } })
+  return { remote, requests, close: () => { port1.close(); port2.close() } }
+}
+
+describe('retry policies', () => {
+  it('should retry a call whose request was lost', async () => {
+    let count = 0
+    const { remote, close } = setup({ increment: () => ++count }, { request: dropFirst('call') })
+
+    expect(await remote.increment()).toBe(1)
+    expect(count).toBe(1)
+
+    close()
+  })
+
+  it('should not run a call twice when its response was lost', async () => {
+    let count = 0
+    const { remote, requests, close } = setup({ increment: () => ++count }, { response: dropFirst('response') })
+
+    expect(await remote.increment()).toBe(1)
+    expect(count).toBe(1)
+    expect(requests).toHaveLength(2)
+    expect(requests[0]!.idempotencyKey).toBeTypeOf('string')
+    expect(requests[1]!.idempotencyKey).toBe(requests[0]!.idempotencyKey)
+
+    close()
+  })
+
+  it('should not run a call again while it outlives the timeout of an attempt', async () => {
+    let count = 0
+    const slow = () => new Promise(resolve => setTimeout(() => resolve(++count), 80))
+    const { remote, requests, close } = setup({ slow })
+
+    expect(await remote.slow()).toBe(1)
+    expect(count).toBe(1)
+    expect(requests.length).toBeGreaterThan(1)
+
+    close()
+  })
+
+  it('should not retry errors that are not retryable', async () => {
+    let count = 0
+    const { remote, close } = setup({ fail: () => { count++; throw new Error('boom') } })
+
+    await expect(remote.fail()).rejects.toThrow('boom')
+    expect(count).toBe(1)
+
+    close()
+  })
+
+  it('should retry errors with a listed code and handle the request again', async () => {
+    let count = 0
+    const api = {
+      load: () => {
+        if (++count < 3) {throw Object.assign(new Error('busy'), { code: 'EBUSY' })}
+        return 'loaded'
+      }
+    }
+    const { remote, close } = setup(api)
+    const retrying = withOptions(remote, { retry: { attempts: 3, delay: 5, retryOn: ['EBUSY'] } })
+
+    expect(await retrying.load()).toBe('loaded')
+    expect(count).toBe(3)
+
+    close()
+  })
+
+  it('should give up after the configured attempts', async () => {
+    const { remote, requests, close } = setup({ increment: () => 1 }, { response: () => true })
+
+    await expect(remote.increment()).rejects.toThrow()
+    expect(requests).toHaveLength(3)
+
+    close()
+  })
+
+  it('should send a call only once when retries are disabled for it', async () => {
+    const { remote, requests, close } = setup({ increment: () => 1 }, { request: dropFirst('call') })
+
+    await expect(withOptions(remote, { retry: false }).increment()).rejects.toThrow()
+    expect(requests).toHaveLength(0)
+    expect(await remote.increment()).toBe(1)
+
+    close()
+  })
+
+  it('should stop retrying when the call is aborted', async () => {
+    const { remote, requests, close } = setup({ increment: () => 1 }, { response: () => true })
+    const controller = new AbortController()
+
+    const result = withOptions(remote, { signal: controller.signal, retry: { attempts: 10, delay: 1000 } }).increment()
+    setTimeout(() => controller.abort(new Error('stop')), 80)
+
+    await expect(result).rejects.toThrow('stop')
+    expect(requests).toHaveLength(1)
+
+    close()
+  })
+})
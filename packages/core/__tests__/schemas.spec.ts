@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type { StandardSchemaV1 } from '../src/index'
+import { setup } from './test-utils'
+
+// A tiny Standard Schema implementation that trims and checks a single string argument
+const nameArgs: StandardSchemaV1<unknown, [string]> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: async (value) => {
+      const [name] = value as unknown[]
+      if (typeof name !== 'string') {
+        return { issues: [{ message: 'Expected a string', path: [0] }] }
+      }
+      return { value: [name.trim()] }
+    }
+  }
+}
+
+describe('provide() schemas', () => {
+  it('should call the function when plain validators pass', async () => {
+    const { remote, close } = setup({ math: { add: (a: number, b: number) => a + b } }, {
+      schemas: { 'math.add': { args: (args) => (args as unknown[]).every(arg => typeof arg === 'number') } }
+    })
+
+    expect(await remote.math.add(1, 2)).toBe(3)
+
+    close()
+  })
+
+  it('should reject invalid arguments with E017 without invoking the function', async () => {
+    let calls = 0
+    const { remote, close } = setup({ math: { add: (a: number, b: number) => { calls++; return a + b } } }, {
+      schemas: { 'math.add': { args: (args) => (args as unknown[]).every(arg => typeof arg === 'number') } }
+    })
+
+    await expect((remote.math.add as any)('1', 2)).rejects.toThrow("VALIDATION FAILED - Arguments of 'math.add' do not match the schema.")
+    expect(calls).toBe(0)
+
+    close()
+  })
+
+  it('should pass the output of Standard Schemas to the function', async () => {
+    const { remote, close } = setup({ greet: (name: string) => `Hello ${name}!` }, {
+      schemas: { greet: { args: nameArgs } }
+    })
+
+    expect(await remote.greet('  Ada  ')).toBe('Hello Ada!')
+    await expect((remote.greet as any)(42)).rejects.toThrow('0: Expected a string')
+
+    close()
+  })
+
+  it('should validate constructor arguments', async () => {
+    class User {
+      constructor(public name: string) {}
+    }
+    const { remote, close } = setup({ User }, { schemas: { User: { args: nameArgs } } })
+
+    await expect(new (remote.User as any)(1)).rejects.toThrow('Expected a string')
+
+    close()
+  })
+
+  it('should reject results that do not match with E018', async () => {
+    const { remote, close } = setup({ getAge: async () => -1 }, {
+      schemas: { getAge: { result: (value) => typeof value === 'number' && value >= 0 } }
+    })
+
+    await expect(remote.getAge()).rejects.toThrow("VALIDATION FAILED - Result of 'getAge' does not match the schema.")
+
+    close()
+  })
+
+  it('should not apply schemas of unrelated paths', async () => {
+    const { remote, close } = setup({ echo: (value: unknown) => value }, {
+      schemas: { toString: { args: () => false } }
+    })
+
+    expect(await remote.echo('x')).toBe('x')
+
+    close()
+  })
+
+  it('should apply schemas to functions of awaited objects', async () => {
+    let calls = 0
+    const admin = { wipe: () => { calls++; return 'wiped' }, tools: { purge: () => 'purged' } }
+    const { remote, close } = setup({ admin }, {
+      schemas: { 'admin.wipe': { args: () => false }, 'admin.tools.purge': { args: () => false } }
+    })
+
+    const awaited = await remote.admin
+    await expect(awaited.wipe()).rejects.toThrow("Arguments of 'admin.wipe' do not match")
+    await expect((await awaited.tools).purge()).rejects.toThrow("Arguments of 'admin.tools.purge' do not match")
+    expect(calls).toBe(0)
+
+    close()
+  })
+
+  it('should apply schemas to functions reached through the result of a call', async () => {
+    let calls = 0
+    const admin = { wipe: () => { calls++; return 'wiped' } }
+    const { remote, close } = setup({ admin, getAdmin: () => admin }, {
+      schemas: { 'admin.wipe': { args: () => false } }
+    })
+
+    await expect(remote.getAdmin().wipe()).rejects.toThrow('VALIDATION FAILED')
+    await expect((await remote.getAdmin()).wipe()).rejects.toThrow('VALIDATION FAILED')
+    expect(calls).toBe(0)
+
+    close()
+  })
+})
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { SignatureRejection } from '../src/index'
+import { consume, createSignedEndpoint, provide } from '../src/index'
+import { collect, createEndpointPair, retained, waitFor } from './test-utils'
+
+const secret = new TextEncoder().encode('a secret both windows know')
+
+describe('createSignedEndpoint', () => {
+  afterEach(() => { retained.length = 0 })
+
+  it('should carry RPC with HMAC signatures', async () => {
+    const [a, b] = createEndpointPair()
+    const api = { add: (x: number, y: number) => x + y }
+    provide(api, createSignedEndpoint(b, { algorithm: 'HMAC', secret }))
+    const remote = consume<typeof api>(createSignedEndpoint(a, { algorithm: 'HMAC', secret }))
+
+    expect(await remote.add(1, 2)).toBe(3)
+    expect(a.frames.every(frame => frame instanceof Object && 'signature' in frame)).toBe(true)
+  })
+
+  it('should drop unsigned, forged, tampered and replayed frames', async () => {
+    const [a, b] = createEndpointPair()
+    const rejections: SignatureRejection[] = []
+    const received = collect(createSignedEndpoint(b, { algorithm: 'HMAC', secret, onReject: reason => rejections.push(reason) }))
+    const sender = createSignedEndpoint(a, { algorithm: 'HMAC', secret })
+
+    sender.postMessage('genuine')
+    await waitFor(() => received.length === 1)
+    const [frame] = a.frames as { signed: Uint8Array, signature: Uint8Array }[]
+    const tampered = new Uint8Array(frame!.signed)
+    tampered[tampered.length - 1] = (tampered.at(-1) ?? 0) + 1
+
+    a.postMessage({ plain: true })
+    createSignedEndpoint(a, { algorithm: 'HMAC', secret: new TextEncoder().encode('wrong') }).postMessage('forged')
+    a.postMessage({ signed: tampered, signature: frame!.signature })
+    a.postMessage(frame)
+    sender.postMessage('next')
+
+    await waitFor(() => received.length === 2 && rejections.length === 4)
+    expect(received).toEqual(['genuine', 'next'])
+    // The forged frame is signed asynchronously and may arrive after the others
+    expect([...rejections].sort()).toEqual(['replay', 'signature', 'signature', 'unsigned'])
+  })
+
+  it('should accept a new session of the peer but no replays of the old one', async () => {
+    const [a, b] = createEndpointPair()
+    const rejections: SignatureRejection[] = []
+    const received = collect(createSignedEndpoint(b, { algorithm: 'HMAC', secret, onReject: reason => rejections.push(reason) }))
+
+    createSignedEndpoint(a, { algorithm: 'HMAC', secret }).postMessage('first session')
+    await waitFor(() => received.length === 1)
+    createSignedEndpoint(a, { algorithm: 'HMAC', secret }).postMessage('second session')
+    await waitFor(() => received.length === 2)
+    a.postMessage(a.frames[0])
+
+    await waitFor(() => rejections.length === 1)
+    expect(received).toEqual(['first session', 'second session'])
+    expect(rejections).toEqual(['replay'])
+  })
+
+  it('should drop its own frames reflected back to it', async () => {
+    const [a, b] = createEndpointPair()
+    const rejections: SignatureRejection[] = []
+    const endpoint = createSignedEndpoint(a, { algorithm: 'HMAC', secret, onReject: reason => rejections.push(reason) })
+    const received = collect(endpoint)
+
+    endpoint.postMessage('to the peer')
+    await waitFor(() => a.frames.length === 1)
+    b.postMessage(a.frames[0])
+    createSignedEndpoint(b, { algorithm: 'HMAC', secret }).postMessage('from the peer')
+
+    await waitFor(() => received.length === 1 && rejections.length === 1)
+    expect(received).toEqual(['from the peer'])
+    expect(rejections).toEqual(['replay'])
+  })
+
+  it('should accept every frame of a burst, however long each one takes to verify', async () => {
+    const verify = crypto.subtle.verify.bind(crypto.subtle)
+    let calls = 0
+    // Every other frame takes longer to verify than the frame after it
+    const slowVerify = vi.spyOn(crypto.subtle, 'verify').mockImplementation(async (...args: Parameters<SubtleCrypto['verify']>) => {
+      if (calls++ % 2 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 1))
+      }
+      return verify(...args)
+    })
+    try {
+      const [a, b] = createEndpointPair()
+      const rejections: SignatureRejection[] = []
+      const received = collect(createSignedEndpoint(b, { algorithm: 'HMAC', secret, onReject: reason => rejections.push(reason) }))
+      const sender = createSignedEndpoint(a, { algorithm: 'HMAC', secret })
+      const sent = Array.from({ length: 500 }, (_, i) => i)
+
+      sent.forEach(i => sender.postMessage(i))
+
+      await waitFor(() => received.length + rejections.length === sent.length, 4000)
+      expect(rejections).toEqual([])
+      expect(received).toEqual(sent)
+    } finally {
+      slowVerify.mockRestore()
+    }
+  })
+
+  it('should sign with Ed25519 keys', async () => {
+    const [a, b] = createEndpointPair()
+    const keysA = await crypto.subtle.generateKey('Ed25519', false, ['sign', 'verify']) as CryptoKeyPair
+    const keysB = await crypto.subtle.generateKey('Ed25519', false, ['sign', 'verify']) as CryptoKeyPair
+    const rejections: SignatureRejection[] = []
+    const received = collect(createSignedEndpoint(b, { algorithm: 'Ed25519', privateKey: keysB.privateKey, peerPublicKey: keysA.publicKey, onReject: reason => rejections.push(reason) }))
+
+    createSignedEndpoint(a, { algorithm: 'Ed25519', privateKey: keysA.privateKey, peerPublicKey: keysB.publicKey }).postMessage({ value: 1n })
+    createSignedEndpoint(a, { algorithm: 'Ed25519', privateKey: keysB.privateKey, peerPublicKey: keysB.publicKey }).postMessage('impostor')
+
+    await waitFor(() => received.length + rejections.length === 2)
+    expect(received).toEqual([{ value: 1n }])
+    expect(rejections).toEqual(['signature'])
+  })
+})
@@ -1,3 +1,6 @@
+import type { ConsumeConfig, PostMessageEndpoint, ProvideConfig, ProviderHandle, Remote } from '../src/index'
+import { consume, provide } from '../src/index'
+
 /**
  * Removes stack information from data that might be added in development mode
  */
@@ -52,4 +55,65 @@ export function removeTraceID(data: any): any {
   }
   
   return result
-}
\ No newline at end of file
+}
+
+/**
+ * Provides an API on one port of a MessageChannel and consumes it on the other
+ */
+export function setup<T>(api: T, provideConfig: ProvideConfig = {}, consumeConfig: ConsumeConfig = {}): { remote: Remote<T> & Disposable & AsyncDisposable, handle: ProviderHandle, close: () => void } {
+  const { port1, port2 } = new MessageChannel()
+  const handle = provide(api, port2 as PostMessageEndpoint, provideConfig)
+  const remote = consume<T>(port1 as PostMessageEndpoint, consumeConfig)
+  return { remote, handle, close: () => { port1.close(); port2.close() } }
+}
+
+export type Recorded = PostMessageEndpoint & { frames: unknown[] }
+
+/**
+ * Creates two ends of an in-memory endpoint that records the messages each end sends
+ */
+export function createEndpointPair(): [Recorded, Recorded] {
+  const targets = [new EventTarget(), new EventTarget()]
+  const ends = targets.map((target, i): Recorded => {
+    const frames: unknown[] = []
+    return {
+      frames,
+      postMessage: (data: unknown) => {
+        frames.push(data)
+        setTimeout(() => targets[1 - i]!.dispatchEvent(new MessageEvent('message', { data })))
+      },
+      addEventListener: (type, listener) => target.addEventListener(type, listener as EventListener),
+      removeEventListener: (type, listener) => target.removeEventListener(type, listener as EventListener)
+    }
+  })
+  return ends as [Recorded, Recorded]
+}
+
+/**
+ * Endpoints only hold their listeners weakly, these are kept alive until the test empties the list
+ */
+export const retained: unknown[] = []
+
+/**
+ * Collects the messages an endpoint receives, without trace IDs
+ */
+export function collect(endpoint: PostMessageEndpoint): unknown[] {
+  const received: unknown[] = []
+  const listener = ({ data }: MessageEvent) => received.push(removeTraceID(data))
+  retained.push(endpoint, listener)
+  endpoint.addEventListener('message', listener)
+  return received
+}
+
+/**
+ * Polls until the condition holds, fails once the time limit has passed
+ */
+export async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error(`Condition not met within ${timeout}ms`)
+    }
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { PostMessageEndpoint } from '../src/index'
+import { consume, createMultiplexedEndpoint, provide, transfer, wrapPostMessageEndpoint } from '../src/index'
+
+describe('transfer', () => {
+  it('should transfer marked arguments to the provider', async () => {
+    const api = { sum: (bytes: Uint8Array) => bytes.reduce((total, value) => total + value, 0) }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const bytes = new Uint8Array([1, 2, 3])
+    const result = remote.sum(transfer(bytes, [bytes.buffer]))
+    expect(bytes.byteLength).toBe(0)
+    expect(await result).toBe(6)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should transfer marked return values to the consumer', async () => {
+    const buffer = new ArrayBuffer(8)
+    const api = { take: () => transfer(buffer, [buffer]) }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const received: ArrayBuffer = await remote.take()
+    expect(received).toBeInstanceOf(ArrayBuffer)
+    expect(received.byteLength).toBe(8)
+    expect(buffer.byteLength).toBe(0)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should copy binary data that is not marked', async () => {
+    const api = { length: (bytes: Uint8Array) => bytes.length }
+
+    const { port1, port2 } = new MessageChannel()
+    provide(api, port2 as PostMessageEndpoint)
+    const remote = consume<typeof api>(port1 as PostMessageEndpoint)
+
+    const bytes = new Uint8Array(16)
+    expect(await remote.length(bytes)).toBe(16)
+    expect(bytes.byteLength).toBe(16)
+
+    port1.close()
+    port2.close()
+  })
+
+  it('should pass the transfer list through wrapped and multiplexed endpoints', () => {
+    const base: PostMessageEndpoint = {
+      postMessage: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn()
+    }
+    const buffer = new ArrayBuffer(4)
+    const channel = createMultiplexedEndpoint(base).createSubChannel('transfer')
+    const wrapped = wrapPostMessageEndpoint(channel, (data: string) => data.toUpperCase())
+
+    wrapped.postMessage('hello', [buffer])
+
+    expect(base.postMessage).toHaveBeenCalledWith(expect.objectContaining({ channelId: '/transfer', data: 'HELLO' }), [buffer])
+  })
+})
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { SessionSocket, SessionState } from '../src/index'
+import { consume, createReconnectingWebsocketEndpoint, createWebsocketSessionServer, provide } from '../src/index'
+
+type FakeSocket = SessionSocket & EventTarget & { drop: () => void }
+
+// Two ends of an in-memory socket. close() delivers frames still in flight, drop() loses them
+const createSocketPair = (): [FakeSocket, FakeSocket] => {
+  let isOpen = true
+  const ends = [new EventTarget(), new EventTarget()] as FakeSocket[]
+
+  const drop = () => {
+    if (!isOpen) {return}
+    isOpen = false
+    setTimeout(() => ends.forEach(end => end.dispatchEvent(new Event('close'))))
+  }
+
+  ends.forEach((end, i) => Object.assign(end, {
+    send: (data: string) => {
+      if (!isOpen) {throw new Error('socket closed')}
+      setTimeout(() => isOpen && ends[1 - i]!.dispatchEvent(new MessageEvent('message', { data })))
+    },
+    close: () => setTimeout(drop),
+    drop
+  }))
+  return ends as [FakeSocket, FakeSocket]
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const until = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await wait(5)
+  }
+  expect(condition()).toBe(true)
+}
+
+describe('resumable websocket sessions', () => {
+  const cleanups: (() => void)[] = []
+  afterEach(() => cleanups.splice(0).forEach(cleanup => cleanup()))
+
+  const setup = <T>(api: T, { sessionTimeout = 1000, maxRetries = Infinity } = {}) => {
+    const sockets: FakeSocket[] = []
+    const states: SessionState[] = []
+    let isServerDown = false
+
+    const server = createWebsocketSessionServer(endpoint => provide(api, endpoint), { sessionTimeout })
+    const endpoint = createReconnectingWebsocketEndpoint(() => {
+      if (isServerDown) {throw new Error('connection refused')}
+      const [client, serverSide] = createSocketPair()
+      server.accept(serverSide)
+      sockets.push(client)
+      setTimeout(() => client.dispatchEvent(new Event('open')))
+      return client
+    }, { minDelay: 5, maxDelay: 20, maxRetries, onStateChange: state => states.push(state) })
+
+    cleanups.push(() => { endpoint.close(); server.close() })
+
+    return {
+      remote: consume<T>(endpoint),
+      endpoint,
+      states,
+      dropConnection: () => sockets.at(-1)?.drop(),
+      setServerDown: (down: boolean) => { isServerDown = down },
+      connectionCount: () => sockets.length
+    }
+  }
+
+  it('should call through a session', async () => {
+    const { remote, endpoint } = setup({ add: (a: number, b: number) => a + b })
+
+    expect(await remote.add(1, 2)).toBe(3)
+    expect(endpoint.state).toBe('open')
+  })
+
+  it('should complete a pending call after a reconnect', async () => {
+    const { remote, dropConnection, connectionCount } = setup({
+      slow: async () => { await wait(30); return 'done' }
+    })
+    await remote.slow()
+
+    const result = remote.slow()
+    await wait(10)
+    dropConnection()
+
+    expect(await result).toBe('done')
+    expect(connectionCount()).toBe(2)
+  })
+
+  it('should send calls made while disconnected once reconnected', async () => {
+    let count = 0
+    const { remote, dropConnection, setServerDown, states } = setup({ increment: () => ++count })
+    await remote.increment()
+
+    setServerDown(true)
+    dropConnection()
+    await until(() => states.at(-1) === 'connecting')
+
+    const results = Promise.all([remote.increment(), remote.increment()])
+    await wait(20)
+    setServerDown(false)
+
+    expect(await results).toEqual([2, 3])
+    expect(count).toBe(3)
+    expect(states).toEqual(['open', 'connecting', 'open'])
+  })
+
+  it('should not run replayed requests twice', async () => {
+    let count = 0
+    const { remote, dropConnection } = setup({ increment: () => ++count })
+    await remote.increment()
+
+    // Dropped before the provider acknowledged the request, which is then replayed
+    const result = remote.increment()
+    await wait(2)
+    dropConnection()
+
+    expect(await result).toBe(2)
+    await wait(30)
+    expect(count).toBe(2)
+  })
+
+  it('should keep callbacks passed to the provider alive', async () => {
+    let listener: ((value: number) => void) | undefined
+    const { remote, dropConnection, connectionCount } = setup({
+      subscribe: (callback: (value: number) => void) => { listener = callback },
+      emit: (value: number) => listener?.(value)
+    })
+    const received: number[] = []
+    await remote.subscribe(value => received.push(value))
+    await remote.emit(1)
+
+    dropConnection()
+    await until(() => connectionCount() === 2)
+    await remote.emit(2)
+
+    await until(() => received.length === 2)
+    expect(received).toEqual([1, 2])
+  })
+
+  it('should close when the server dropped the session', async () => {
+    const { remote, endpoint, dropConnection, setServerDown } = setup({ ping: () => true }, { sessionTimeout: 10 })
+    await remote.ping()
+
+    setServerDown(true)
+    dropConnection()
+    await wait(40)
+    setServerDown(false)
+
+    await until(() => endpoint.state === 'closed')
+  })
+
+  it('should give up after the configured number of retries', async () => {
+    const { remote, endpoint, dropConnection, setServerDown, states } = setup({ ping: () => true }, { maxRetries: 2 })
+    await remote.ping()
+
+    setServerDown(true)
+    dropConnection()
+
+    await until(() => endpoint.state === 'closed')
+    expect(states).toEqual(['open', 'connecting', 'closed'])
+  })
+})
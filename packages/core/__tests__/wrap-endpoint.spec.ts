@@ -136,4 +136,24 @@ describe('wrapPostMessageEndpoint', () => {
     expect(() => wrapPostMessageEndpoint(port1 as any)).not.toThrow()
     expect(() => wrapPostMessageEndpoint(port2 as any)).not.toThrow()
   })
-})
\ No newline at end of file
+
+  it('should keep the order of messages with async transforms', async () => {
+    const mockEndpoint: PostMessageEndpoint = {
+      postMessage: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn()
+    }
+
+    // Numbers are delayed by their value, strings pass synchronously
+    const delay = (data: unknown) => typeof data === 'number' ? new Promise(resolve => setTimeout(() => resolve(data), data)) : data
+    const wrapped = wrapPostMessageEndpoint<unknown, unknown>(mockEndpoint, delay)
+
+    wrapped.postMessage(20)
+    wrapped.postMessage('sync')
+    wrapped.postMessage(1)
+    await new Promise(resolve => setTimeout(resolve, 50))
+    wrapped.postMessage('later')
+
+    expect((mockEndpoint.postMessage as any).mock.calls.map((call: unknown[]) => call[0])).toEqual([20, 'sync', 1, 'later'])
+  })
+})
@@ -0,0 +1,82 @@
+import type { RemoteCallRequest } from "./rpc-types"
+
+/**
+ * Describes a request the provider is about to handle
+ */
+export interface AccessRequest {
+  /**
+   * ID of the consumer that sent the request, or that received the object for requests on handed out objects
+   */
+  consumerID: string
+
+  /**
+   * ID of the realm the request originates from
+   */
+  realmId: string
+
+  /**
+   * Identity the provider's `authenticate` callback returned for the consumer, undefined without authentication
+   */
+  identity: unknown
+
+  /**
+   * The requested operation
+   */
+  operationType: RemoteCallRequest['operationType']
+
+  /**
+   * The accessed property path. For `has`, `describe` and `delete` it ends with the inspected key.
+   * Paths on an awaited object continue the path it was awaited at
+   */
+  propertyChain: string[]
+
+  /**
+   * Whether the path starts from the result of an earlier call instead of the provided object
+   */
+  pipelined: boolean
+
+  /**
+   * The path from the provided object. Paths on the result of a call continue the path of the call,
+   * so `api.getUser(1).delete()` resolves to `getUser.delete`. Equal to `propertyChain` if not pipelined
+   */
+  resolvedChain: string[]
+}
+
+/**
+ * Decides whether a request may be handled, either as a callback or as allow and deny lists
+ *
+ * List entries are dot-separated paths that also cover everything below them. `*` matches
+ * a single segment. Deny entries take precedence; when `allow` is given, only matching
+ * paths are accessible. Lists match the resolved path, objects reached through the result of a call
+ * fall under the entries of the call and not under those of the path they are found at elsewhere.
+ */
+export type AccessPolicy =
+  | ((request: AccessRequest) => boolean)
+  | { allow?: string[], deny?: string[] }
+
+const matchesPattern = (pattern: string, propertyChain: string[]) => {
+  const segments = pattern.split('.').filter(Boolean)
+  return segments.length <= propertyChain.length && segments.every((segment, i) => segment === '*' || segment === propertyChain[i])
+}
+
+/**
+ * Evaluates an access policy for a request. A policy callback that throws denies the request
+ * @param policy - The policy to evaluate
+ * @param request - The request to check
+ * @returns true if the request may be handled
+ */
+export const isAccessAllowed = (policy: AccessPolicy, request: AccessRequest): boolean => {
+  if (typeof policy === 'function') {
+    try {
+      return policy(request) === true
+    } catch {
+      return false
+    }
+  }
+
+  const { allow, deny = [] } = policy
+  if (deny.some(pattern => matchesPattern(pattern, request.resolvedChain))) {
+    return false
+  }
+  return !allow || allow.some(pattern => matchesPattern(pattern, request.resolvedChain))
+}
@@ -0,0 +1,60 @@
+/**
+ * What a provider's `authenticate` callback is asked to verify
+ */
+export interface AuthenticationRequest {
+  /**
+   * Whatever the consumer's `authenticate` callback returned, such as a token or a signed challenge
+   */
+  credentials: unknown
+
+  /**
+   * Random value the provider sent in the handshake, valid for a single attempt
+   */
+  challenge: string
+
+  /**
+   * ID of the consumer the identity is bound to
+   */
+  consumerID: string
+
+  /**
+   * ID of the realm the consumer runs in
+   */
+  realmId: string
+}
+
+/**
+ * Verifies the credentials of a consumer on the provider side
+ *
+ * Returns the identity of the consumer, e.g. a user record, or `undefined` or `false` to
+ * reject it with E027. Errors thrown by the callback are passed on to the consumer.
+ */
+export type Authenticator = (request: AuthenticationRequest) => unknown
+
+/**
+ * Produces the credentials of a consumer, either a token that ignores the challenge or a
+ * response to it, such as a signature
+ */
+export type CredentialsProvider = (challenge: string) => unknown
+
+/** @internal */
+export const createChallenge = (): string => crypto.randomUUID()
+
+/** @internal */
+export const createAuthenticationFailedError = (): Error => new Error(__DEV__ ? 'AUTHENTICATION FAILED - The provider rejected the credentials.' : `E027`)
+
+/** @internal */
+export const createNotAuthenticatedError = (): Error => new Error(__DEV__ ? 'NOT AUTHENTICATED - The provider requires authentication, pass `authenticate` to consume().' : `E028`)
+
+/**
+ * Runs the authenticator of a provider
+ * @internal
+ * @returns A promise for the identity, rejected with E027 if the credentials were rejected
+ */
+export const verifyCredentials = async (authenticate: Authenticator, request: AuthenticationRequest): Promise<unknown> => {
+  const identity = await authenticate(request)
+  if (identity === undefined || identity === false) {
+    throw createAuthenticationFailedError()
+  }
+  return identity
+}
@@ -0,0 +1,92 @@
+/**
+ * Information about the remote call a provided function is currently handling
+ */
+export interface CallContext {
+  /**
+   * ID of the consumer that made the call
+   */
+  consumerID: string
+
+  /**
+   * ID of the realm the call originates from
+   */
+  realmId: string
+
+  /**
+   * Aborted when the consumer cancels the call
+   */
+  signal: AbortSignal
+
+  /**
+   * Identity the provider's `authenticate` callback returned for the consumer, undefined without authentication
+   */
+  identity: unknown
+
+  /**
+   * Time in milliseconds since the epoch by which the call has to finish, from the consumer or
+   * the provider's budget. The signal is aborted once it passes
+   */
+  deadline?: number
+
+  /**
+   * Priority the consumer set through `withOptions()`
+   */
+  priority?: number
+
+  /**
+   * Headers the consumer set through `withOptions()`, empty without any
+   */
+  metadata: Readonly<Record<string, string>>
+}
+
+interface ContextStorage {
+  getStore(): CallContext | undefined
+  run<T>(context: CallContext, fn: () => T): T
+}
+
+// AsyncLocalStorage keeps the context across awaits where the runtime has it (Node.js, Deno, Bun)
+const createContextStorage = (): ContextStorage | undefined => {
+  const runtime = (globalThis as { process?: { getBuiltinModule?: (id: string) => any } }).process
+  const AsyncLocalStorage = runtime?.getBuiltinModule?.('node:async_hooks')?.AsyncLocalStorage
+  return AsyncLocalStorage ? new AsyncLocalStorage() : undefined
+}
+
+const contextStorage = /*#__PURE__*/ createContextStorage()
+let currentCallContext: CallContext | undefined
+
+/**
+ * Returns the context of the remote call that is currently being handled
+ *
+ * Where the runtime has `AsyncLocalStorage` (Node.js, Deno, Bun), the context stays available
+ * across `await`s and in work the provided function starts. Elsewhere, such as in browsers, it is
+ * only available synchronously while the provided function is invoked, so read it before the
+ * first `await`. Remote calls made while the context is available inherit its deadline.
+ *
+ * @returns The current call context or undefined outside of a remote call
+ *
+ * @example
+ * ```typescript
+ * provide({
+ *   search: async (query: string) => {
+ *     const { signal } = getCallContext()!
+ *     const response = await fetch(`/search?q=${query}`, { signal })
+ *     return response.json()
+ *   }
+ * }, endpoint)
+ * ```
+ */
+export const getCallContext = (): CallContext | undefined => contextStorage ? contextStorage.getStore() : currentCallContext
+
+/** @internal */
+export const runWithCallContext = <T>(context: CallContext, fn: () => T): T => {
+  if (contextStorage) {
+    return contextStorage.run(context, fn)
+  }
+  const previousContext = currentCallContext
+  currentCallContext = context
+  try {
+    return fn()
+  } finally {
+    currentCallContext = previousContext
+  }
+}
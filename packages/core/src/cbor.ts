@@ -0,0 +1,243 @@
+import { isArray, isString, NOOP } from "@remobj/shared"
+import {
+  createByteReader,
+  createByteWriter,
+  createCodecError,
+  decodeText,
+  encodeText,
+  setProperty,
+  toBytes,
+  type ByteReader,
+  type ByteWriter,
+  type Codec
+} from "./codec"
+
+const NAME = 'cbor'
+const BREAK = 0xFF
+// Tags of byte strings holding big-endian BigInts beyond 64 bits
+const POSITIVE_BIGNUM = 2
+const NEGATIVE_BIGNUM = 3
+
+// The first byte of an item holds the major type in its upper 3 bits and additional information in the lower 5
+const writeHead = (writer: ByteWriter, major: number, argument: number) => {
+  const type = major * 32
+  if (argument < 24) {
+    writer.u8(type + argument)
+  } else if (argument <= 0xFF) {
+    writer.u8(type + 24)
+    writer.u8(argument)
+  } else if (argument <= 0xFF_FF) {
+    writer.u8(type + 25)
+    writer.u16(argument)
+  } else {
+    writer.u8(type + 26)
+    writer.u32(argument)
+  }
+}
+
+// Integers up to 32 bits use the smallest head, other numbers are 64 bit floats
+const writeNumber = (writer: ByteWriter, value: number) => {
+  if (!Number.isInteger(value) || Object.is(value, -0) || value < -0x1_00_00_00_00 || value > 0xFF_FF_FF_FF) {
+    writer.u8(0xFB)
+    writer.f64(value)
+  } else if (value >= 0) {
+    writeHead(writer, 0, value)
+  } else {
+    writeHead(writer, 1, -1 - value)
+  }
+}
+
+// BigInts always use the 64 bit argument or a bignum tag, which decode to BigInts again
+const writeBigInt = (writer: ByteWriter, value: bigint) => {
+  const isNegative = value < 0n
+  const magnitude = isNegative ? -1n - value : value
+  if (magnitude <= 0xFF_FF_FF_FF_FF_FF_FF_FFn) {
+    writer.u8(isNegative ? 0x3B : 0x1B)
+    writer.u64(magnitude)
+    return
+  }
+  const hex = magnitude.toString(16)
+  const bytes = Uint8Array.from(hex.padStart(hex.length + hex.length % 2, '0').match(/../g) ?? [], byte => Number.parseInt(byte, 16))
+  writeHead(writer, 6, isNegative ? NEGATIVE_BIGNUM : POSITIVE_BIGNUM)
+  writeHead(writer, 2, bytes.length)
+  writer.bytes(bytes)
+}
+
+const write = (writer: ByteWriter, value: unknown): void => {
+  if (value === false || value === true) {
+    writer.u8(value ? 0xF5 : 0xF4)
+  } else if (value === null) {
+    writer.u8(0xF6)
+  } else if (value === undefined) {
+    writer.u8(0xF7)
+  } else if (typeof value === 'number') {
+    writeNumber(writer, value)
+  } else if (typeof value === 'bigint') {
+    writeBigInt(writer, value)
+  } else if (isString(value)) {
+    const bytes = encodeText(value)
+    writeHead(writer, 3, bytes.length)
+    writer.bytes(bytes)
+  } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes = toBytes(value)
+    writeHead(writer, 2, bytes.length)
+    writer.bytes(bytes)
+  } else if (isArray(value)) {
+    writeHead(writer, 4, value.length)
+    value.forEach(item => write(writer, item))
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value)
+    writeHead(writer, 5, entries.length)
+    entries.forEach(([key, item]) => {
+      write(writer, key)
+      write(writer, item)
+    })
+  } else {
+    throw createCodecError(NAME, `can not encode a ${typeof value}`)
+  }
+}
+
+// Readers of the arguments that follow the head, by its additional information
+const argumentReaders: Record<number, (reader: ByteReader) => number | bigint> = {
+  24: reader => reader.u8(),
+  25: reader => reader.u16(),
+  26: reader => reader.u32(),
+  27: reader => reader.u64()
+}
+
+// Reads the argument of a head, 64 bit arguments as BigInt. Undefined for indefinite lengths
+const readArgument = (reader: ByteReader, info: number): number | bigint | undefined => {
+  if (info < 24) {return info}
+  if (info === 31) {return undefined}
+  const readValue = argumentReaders[info]
+  if (!readValue) {
+    throw createCodecError(NAME, `can not decode additional information ${info}`)
+  }
+  return readValue(reader)
+}
+
+const readInteger = (reader: ByteReader, info: number): number | bigint => {
+  const argument = readArgument(reader, info)
+  if (argument === undefined) {
+    throw createCodecError(NAME, 'can not decode an integer of indefinite length')
+  }
+  return argument
+}
+
+const readLength = (reader: ByteReader, info: number): number | undefined => {
+  const length = readArgument(reader, info)
+  return typeof length === 'bigint' ? Number(length) : length
+}
+
+// Calls readItem until the break of an indefinite length item, or length times
+const readItems = (reader: ByteReader, length: number | undefined, readItem: () => void) => {
+  if (length !== undefined) {
+    for (let i = 0; i < length; i++) {readItem()}
+    return
+  }
+  while (reader.peek() !== BREAK) {readItem()}
+  reader.u8()
+}
+
+// Definite strings are read at once, indefinite ones are joined from their chunks
+const readBytes = (reader: ByteReader, length: number | undefined): Uint8Array => {
+  if (length !== undefined) {return reader.bytes(length)}
+  const chunks: Uint8Array[] = []
+  let size = 0
+  readItems(reader, undefined, () => {
+    const chunk = readBytes(reader, readLength(reader, reader.u8() % 32))
+    chunks.push(chunk)
+    size += chunk.length
+  })
+  const joined = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    joined.set(chunk, offset)
+    offset += chunk.length
+  }
+  return joined
+}
+
+const readBignum = (bytes: Uint8Array) => {
+  let value = 0n
+  for (const byte of bytes) {
+    value = value * 256n + BigInt(byte)
+  }
+  return value
+}
+
+// Readers of the simple values and floats, by the additional information of major type 7
+const simpleReaders: Record<number, (reader: ByteReader) => unknown> = {
+  20: () => false,
+  21: () => true,
+  // eslint-disable-next-line unicorn/no-null
+  22: () => null,
+  23: NOOP,
+  25: reader => reader.f16(),
+  26: reader => reader.f32(),
+  27: reader => reader.f64()
+}
+
+// Readers of the major types, by the upper 3 bits of the head
+const majorReaders: ((reader: ByteReader, info: number) => unknown)[] = [
+  (reader, info) => readInteger(reader, info),
+  (reader, info) => {
+    const argument = readInteger(reader, info)
+    return typeof argument === 'bigint' ? -1n - argument : -1 - argument
+  },
+  (reader, info) => readBytes(reader, readLength(reader, info)),
+  (reader, info) => decodeText(readBytes(reader, readLength(reader, info))),
+  (reader, info) => {
+    const result: unknown[] = []
+    readItems(reader, readLength(reader, info), () => result.push(read(reader)))
+    return result
+  },
+  (reader, info) => {
+    const result: Record<string, unknown> = {}
+    readItems(reader, readLength(reader, info), () => setProperty(result, read(reader), read(reader)))
+    return result
+  },
+  (reader, info) => {
+    // Tags other than bignums are not interpreted, the tagged value is used as is
+    const tag = readInteger(reader, info)
+    const value = read(reader)
+    if ((tag === POSITIVE_BIGNUM || tag === NEGATIVE_BIGNUM) && value instanceof Uint8Array) {
+      return tag === POSITIVE_BIGNUM ? readBignum(value) : -1n - readBignum(value)
+    }
+    return value
+  },
+  (reader, info) => {
+    const readValue = simpleReaders[info]
+    if (!readValue) {
+      throw createCodecError(NAME, `can not decode simple value ${info}`)
+    }
+    return readValue(reader)
+  }
+]
+
+const read = (reader: ByteReader): unknown => {
+  const head = reader.u8()
+  return majorReaders[Math.floor(head / 32)]?.(reader, head % 32)
+}
+
+/**
+ * Encodes messages as [CBOR](https://cbor.io) (RFC 8949) into `ArrayBuffer` frames
+ *
+ * Unlike JSON it keeps `undefined`, `BigInt` and binary data. 64 bit integers and
+ * bignums decode to `BigInt`s, byte strings to `Uint8Array`s.
+ */
+export const cborCodec: Codec = {
+  name: NAME,
+  binary: true,
+  encode: (data) => {
+    const writer = createByteWriter()
+    write(writer, data)
+    return writer.finish()
+  },
+  decode: (frame) => {
+    if (isString(frame)) {
+      throw createCodecError(NAME, 'can not decode a string frame')
+    }
+    return read(createByteReader(NAME, frame))
+  }
+}
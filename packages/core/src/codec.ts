@@ -0,0 +1,238 @@
+import { isFunction, isString } from "@remobj/shared"
+import type { PostMessageEndpoint, PostMessageEndpointBase } from "./types"
+
+/**
+ * Turns messages into frames for string and binary transports such as WebSockets and RTCDataChannels
+ */
+export interface Codec {
+  /**
+   * Name exchanged in the handshake
+   */
+  readonly name: string
+
+  /**
+   * Whether frames are `ArrayBuffer`s instead of strings
+   */
+  readonly binary: boolean
+
+  /**
+   * Encodes a message into a frame
+   */
+  encode(data: unknown): string | ArrayBuffer
+
+  /**
+   * Decodes a received frame
+   */
+  decode(frame: string | ArrayBuffer | ArrayBufferView): unknown
+}
+
+/**
+ * Endpoint that encodes messages with a codec, returned by `createSendingEndpoint()`
+ */
+export interface CodecEndpoint extends PostMessageEndpoint {
+  /**
+   * Names of the codecs the endpoint can use, in order of preference
+   */
+  readonly codecs: string[]
+
+  /**
+   * Name of the codec outgoing messages are encoded with
+   */
+  readonly codec: string
+
+  /**
+   * Encodes outgoing messages with another of its codecs, called once the handshake has chosen one
+   * @param name - Name of the codec
+   */
+  useCodec(name: string): void
+}
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+/** @internal */
+export const encodeText = (text: string): Uint8Array<ArrayBuffer> => textEncoder.encode(text)
+
+/** @internal */
+export const decodeText = (bytes: Uint8Array): string => textDecoder.decode(bytes)
+
+/** @internal */
+export const toBytes = (frame: ArrayBuffer | ArrayBufferView): Uint8Array =>
+  ArrayBuffer.isView(frame) ? new Uint8Array(frame.buffer, frame.byteOffset, frame.byteLength) : new Uint8Array(frame)
+
+// Bytes per String.fromCodePoint call, well below the argument limit of engines
+const BASE64_CHUNK_SIZE = 0x80_00
+
+/**
+ * Encodes binary data for endpoints that only carry strings
+ * @internal
+ */
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  const chunks: string[] = []
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    chunks.push(String.fromCodePoint(...bytes.subarray(i, i + BASE64_CHUNK_SIZE)))
+  }
+  return btoa(chunks.join(''))
+}
+
+/** @internal */
+export const decodeBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), char => char.codePointAt(0) ?? 0)
+
+/** @internal */
+export const createCodecError = (codec: string, problem: string): Error => new Error(__DEV__ ? `CODEC ERROR - ${codec} ${problem}.` : `E026`)
+
+/**
+ * Encodes messages as JSON strings, the format every endpoint starts with
+ */
+export const jsonCodec: Codec = {
+  name: 'json',
+  binary: false,
+  encode: data => JSON.stringify(data),
+  decode: frame => JSON.parse(isString(frame) ? frame : decodeText(toBytes(frame)))
+}
+
+/** @internal */
+export const isCodecEndpoint = (endpoint: PostMessageEndpointBase<any>): endpoint is CodecEndpoint =>
+  isFunction((endpoint as Partial<CodecEndpoint>).useCodec)
+
+/**
+ * Whether an endpoint turns binary data into JSON, so it has to be sent as base64
+ * @internal
+ */
+export const isTextEndpoint = (endpoint: PostMessageEndpointBase<any>): boolean =>
+  isCodecEndpoint(endpoint) && endpoint.codec === jsonCodec.name
+
+/** @internal */
+export const getCodecNames = (endpoint: PostMessageEndpoint): string[] => isCodecEndpoint(endpoint) ? endpoint.codecs : [jsonCodec.name]
+
+/** @internal */
+export interface ByteWriter {
+  u8(value: number): void
+  u16(value: number): void
+  u32(value: number): void
+  u64(value: bigint): void
+  f64(value: number): void
+  bytes(value: Uint8Array): void
+  finish(): ArrayBuffer
+}
+
+/**
+ * Creates a growing buffer that numbers are written to in big-endian order
+ * @internal
+ */
+export const createByteWriter = (): ByteWriter => {
+  let buffer = new Uint8Array(256)
+  let view = new DataView(buffer.buffer)
+  let length = 0
+
+  const reserve = (size: number) => {
+    if (length + size > buffer.length) {
+      const grown = new Uint8Array(Math.max(buffer.length * 2, length + size))
+      grown.set(buffer)
+      buffer = grown
+      view = new DataView(buffer.buffer)
+    }
+    const offset = length
+    length += size
+    return offset
+  }
+
+  // Reserves the space before the view is read, as growing replaces it
+  const set = (size: number, write: (target: DataView, offset: number) => void) => {
+    const offset = reserve(size)
+    write(view, offset)
+  }
+
+  return {
+    u8: value => set(1, (target, offset) => target.setUint8(offset, value)),
+    u16: value => set(2, (target, offset) => target.setUint16(offset, value)),
+    u32: value => set(4, (target, offset) => target.setUint32(offset, value)),
+    u64: value => set(8, (target, offset) => target.setBigUint64(offset, value)),
+    f64: value => set(8, (target, offset) => target.setFloat64(offset, value)),
+    bytes: value => set(value.length, (_target, offset) => buffer.set(value, offset)),
+    finish: () => buffer.slice(0, length).buffer
+  }
+}
+
+/** @internal */
+export interface ByteReader {
+  peek(): number
+  u8(): number
+  u16(): number
+  u32(): number
+  u64(): bigint
+  i8(): number
+  i16(): number
+  i32(): number
+  i64(): bigint
+  f16(): number
+  f32(): number
+  f64(): number
+  bytes(length: number): Uint8Array
+}
+
+/**
+ * Reads big-endian numbers from a frame, failing with E026 at its end
+ * @internal
+ */
+export const createByteReader = (codec: string, frame: ArrayBuffer | ArrayBufferView): ByteReader => {
+  const bytes = toBytes(frame)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 0
+
+  const advance = (size: number) => {
+    if (offset + size > bytes.length) {
+      throw createCodecError(codec, 'can not decode a truncated frame')
+    }
+    const start = offset
+    offset += size
+    return start
+  }
+
+  // Half precision floats are only read, CBOR encoders may use them for small values
+  const f16 = () => {
+    const half = view.getUint16(advance(2))
+    const exponent = Math.floor(half / 0x4_00) % 32
+    const fraction = half % 0x4_00
+    const sign = half >= 0x80_00 ? -1 : 1
+    if (exponent === 0) {return sign * fraction * 2 ** -24}
+    if (exponent === 31) {return fraction ? Number.NaN : sign * Infinity}
+    return sign * (1 + fraction / 1024) * 2 ** (exponent - 15)
+  }
+
+  return {
+    peek: () => {
+      const start = advance(1)
+      offset = start
+      return view.getUint8(start)
+    },
+    u8: () => view.getUint8(advance(1)),
+    u16: () => view.getUint16(advance(2)),
+    u32: () => view.getUint32(advance(4)),
+    u64: () => view.getBigUint64(advance(8)),
+    i8: () => view.getInt8(advance(1)),
+    i16: () => view.getInt16(advance(2)),
+    i32: () => view.getInt32(advance(4)),
+    i64: () => view.getBigInt64(advance(8)),
+    f16,
+    f32: () => view.getFloat32(advance(4)),
+    f64: () => view.getFloat64(advance(8)),
+    bytes: (length) => {
+      const start = advance(length)
+      return bytes.slice(start, start + length)
+    }
+  }
+}
+
+/**
+ * Sets a decoded property, keeping `__proto__` an own property like `JSON.parse` does
+ * @internal
+ */
+export const setProperty = (target: Record<string, unknown>, key: unknown, value: unknown): void => {
+  const name = String(key)
+  if (name === '__proto__') {
+    Object.defineProperty(target, name, { value, writable: true, enumerable: true, configurable: true })
+  } else {
+    target[name] = value
+  }
+}
@@ -0,0 +1,102 @@
+import { isObject, isString } from "@remobj/shared"
+import { decodeBase64, encodeBase64, isTextEndpoint, toBytes } from "./codec.js"
+import { msgpackCodec } from "./msgpack.js"
+import type { PostMessageEndpointBase } from "./types.js"
+import { wrapPostMessageEndpoint } from "./wrap-endpoint.js"
+
+/**
+ * Formats supported by `CompressionStream` in every browser and Node.js
+ */
+export type CompressionAlgorithm = 'gzip' | 'deflate'
+
+/**
+ * Options for `createCompressedEndpoint()`
+ */
+export interface CompressionOptions {
+  /**
+   * Size in bytes from which messages are compressed, smaller ones are sent as they are
+   * @default 1024
+   */
+  threshold?: number
+
+  /**
+   * Format outgoing messages are compressed with. Incoming messages name their own format
+   * @default 'gzip'
+   */
+  algorithm?: CompressionAlgorithm
+}
+
+// Envelope of a compressed message, messages without it are passed through unchanged
+interface CompressedMessage {
+  compressed: CompressionAlgorithm
+  payload: Uint8Array | string
+}
+
+const ALGORITHMS: readonly string[] = ['gzip', 'deflate']
+
+const isCompressedMessage = (data: unknown): data is CompressedMessage =>
+  isObject(data) && ALGORITHMS.includes((data as Partial<CompressedMessage>).compressed as string) && 'payload' in data
+
+const pipe = async (bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer())
+
+/**
+ * Creates an endpoint that compresses large messages with `CompressionStream`
+ *
+ * Messages are encoded as MessagePack and compressed once they reach `threshold` bytes, so the
+ * endpoint suits transports that carry plain data such as WebSockets, not ones that transfer
+ * ports. Smaller messages and incoming messages without the compression envelope pass through
+ * unchanged, which lets it talk to peers without the wrapper as long as they only receive small
+ * messages. The compressed payload is a `Uint8Array`, or a base64 string while `endpoint` is a
+ * codec endpoint that sends JSON. Frames that can not be decompressed are dropped.
+ *
+ * @param endpoint - The endpoint to compress messages for
+ * @param options - Threshold and compression format
+ * @param name - Name for debugging
+ * @returns The endpoint, messages keep their order
+ *
+ * @example
+ * ```typescript
+ * const endpoint = createCompressedEndpoint(createWebsocketEndpoint(ws, 'api'), { threshold: 4096 })
+ * const api = consume<API>(endpoint)
+ * ```
+ */
+export const createCompressedEndpoint = (
+  endpoint: PostMessageEndpointBase<any>,
+  options: CompressionOptions = {},
+  name = ''
+): PostMessageEndpointBase<any> => {
+  const { threshold = 1024, algorithm = 'gzip' } = options
+
+  // Small messages are returned right away, only compressing makes the endpoint wait
+  const compress = (data: unknown): unknown => {
+    let encoded: Uint8Array<ArrayBuffer>
+    try {
+      encoded = new Uint8Array(msgpackCodec.encode(data) as ArrayBuffer)
+    } catch {
+      // Values MessagePack has no format for are left to the endpoint
+      return data
+    }
+    if (encoded.length < threshold) {
+      return data
+    }
+
+    return pipe(encoded, new CompressionStream(algorithm)).then((compressed): CompressedMessage => (
+      { compressed: algorithm, payload: isTextEndpoint(endpoint) ? encodeBase64(compressed) : compressed }
+    ))
+  }
+
+  const decompress = async ({ compressed, payload }: CompressedMessage): Promise<unknown> => {
+    // Copied, as the payload may be a view on a shared buffer
+    const bytes = isString(payload) ? decodeBase64(payload) : new Uint8Array(toBytes(payload))
+    return msgpackCodec.decode(await pipe(bytes, new DecompressionStream(compressed)))
+  }
+
+  return /*#__PURE__*/ wrapPostMessageEndpoint<any, any>(
+    endpoint,
+    compress,
+    (data: unknown) => isCompressedMessage(data) ? decompress(data) : data,
+    'COMPRESSION',
+    name
+  )
+}
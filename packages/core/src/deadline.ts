@@ -0,0 +1,16 @@
+import { isNumber } from "@remobj/shared"
+
+/** @internal */
+export const createDeadlineError = (): Error => new Error(__DEV__ ? 'DEADLINE EXCEEDED - The call did not finish before its deadline.' : `E029`)
+
+/** @internal */
+export const isDeadlineError = (error: unknown): boolean => error instanceof Error && error.message === createDeadlineError().message
+
+/**
+ * Returns the earliest of the given deadlines, values that are not numbers are ignored
+ * @internal
+ */
+export const getEarliestDeadline = (...deadlines: unknown[]): number | undefined => {
+  const numbers = deadlines.filter(isNumber)
+  return numbers.length > 0 ? Math.min(...numbers) : undefined
+}
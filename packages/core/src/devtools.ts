@@ -73,10 +73,10 @@ export const wrapEndpointDevtools = (ep: PostMessageEndpoint, type = '', name =
     ep.addEventListener('message', mainListener)
 
     const wrapedEP: PostMessageEndpoint =  {
-      postMessage: (data) => {
+      postMessage: (data, transfer) => {
         const traceID = getTraceID(data)
         devtools(traceID, 'postMessage', objectID, type, name, '', data)
-        ep.postMessage(data)
+        ep.postMessage(data, transfer)
       }, 
       addEventListener: (type, listener) => ep.addEventListener(type, listener),
       removeEventListener: (type, listener) => ep.removeEventListener(type, listener)
@@ -0,0 +1,296 @@
+import { isObject, isString, NOOP, onGarbageCollected } from "@remobj/shared"
+import { WeakBiMap } from "@remobj/weakbimap"
+import { decodeBase64, encodeBase64, encodeText, isTextEndpoint, toBytes } from "./codec.js"
+import { devtools, getTraceID } from "./devtools.js"
+import { msgpackCodec } from "./msgpack.js"
+import type { Listener, PostMessageEndpoint, PostMessageEndpointBase } from "./types.js"
+import { createOrderedDelivery } from "./wrap-endpoint.js"
+
+/**
+ * Options for `createEncryptedEndpoint()`
+ */
+export interface EncryptionOptions {
+  /**
+   * Curve of the ECDH key exchange, both sides have to use the same
+   * @default 'P-256'
+   */
+  curve?: 'P-256' | 'P-384' | 'P-521'
+
+  /**
+   * Secret both sides know beforehand, mixed into the derived keys to authenticate the key exchange.
+   * Without it, a hop that replaces the public keys with its own can read and alter every message
+   */
+  secret?: string | Uint8Array
+}
+
+/**
+ * Endpoint returned by `createEncryptedEndpoint()`
+ */
+export interface EncryptedEndpoint extends PostMessageEndpoint {
+  /**
+   * Runs a new key exchange, messages sent afterwards use the new keys
+   * @returns Resolves once the peer answered and the new keys are in use
+   */
+  rotateKey(): Promise<void>
+}
+
+// Public key of one side for an epoch. Unanswered keys ask the peer to send its own
+interface KeyMessage {
+  encryption: 'key'
+  epoch: number
+  publicKey: Uint8Array | string
+  answer: boolean
+}
+
+interface EncryptedMessage {
+  encryption: 'data'
+  epoch: number
+  seq: number
+  payload: Uint8Array | string
+}
+
+// Key pair of an epoch, the AES keys exist once the public key of the peer arrived
+interface Epoch {
+  epoch: number
+  keyPair: CryptoKeyPair
+  publicKey: Uint8Array<ArrayBuffer>
+  peerPublicKey?: Uint8Array
+  keys?: { send: CryptoKey, receive: CryptoKey }
+  seq: number
+  lastPeerSeq: number
+  used: { promise: Promise<Epoch>, resolve: (state: Epoch) => void }
+}
+
+const createDeferred = () => {
+  let resolve: (state: Epoch) => void = NOOP
+  const promise = new Promise<Epoch>(settle => { resolve = settle })
+  return { promise, resolve }
+}
+
+const isKeyMessage = (data: unknown): data is KeyMessage => isObject(data) && data.encryption === 'key'
+const isEncryptedMessage = (data: unknown): data is EncryptedMessage => isObject(data) && data.encryption === 'data'
+
+const isSameKey = (a: Uint8Array | undefined, b: Uint8Array) => a?.length === b.length && a.every((byte, i) => byte === b[i])
+
+// Orders public keys bytewise, so both sides agree on the roles of their keys
+const isLowerKey = (a: Uint8Array, b: Uint8Array) => {
+  const index = a.findIndex((byte, i) => byte !== b[i])
+  return index !== -1 && (a[index] ?? 0) < (b[index] ?? 0)
+}
+
+// The sequence number is the nonce, it never repeats under a key as every side and epoch has its own
+const createIV = (seq: number) => {
+  const iv = new Uint8Array(12)
+  const view = new DataView(iv.buffer)
+  view.setUint32(4, Math.floor(seq / 0x1_00_00_00_00))
+  view.setUint32(8, seq % 0x1_00_00_00_00)
+  return iv
+}
+
+// The epoch is authenticated as well, so a message can not be moved to another one
+const createAdditionalData = (epoch: number) => encodeText(`remobj-encryption:${epoch}`)
+
+/**
+ * Creates an endpoint that encrypts every message end-to-end, for relaying RPC through hops
+ * that must not read it, such as a shared worker or a relay server joined with `connectEndpoints()`
+ *
+ * Both sides exchange ECDH public keys when they are created and derive an AES-GCM key for each
+ * direction. Messages sent before the exchange completes are queued. Messages are encoded as
+ * MessagePack before they are encrypted, the ciphertext is a `Uint8Array` or a base64 string
+ * while `endpoint` is a codec endpoint that sends JSON. Tampered, replayed and unencrypted
+ * messages are dropped.
+ *
+ * The key exchange is only authenticated with `options.secret`. Without it, the endpoint protects
+ * against hops that read or alter messages, not against one that replaces the public keys with
+ * its own, so it is no protection against an untrusted relay. With it, a hop that swaps the keys
+ * derives other keys than the peers and its messages are dropped.
+ *
+ * @param endpoint - The endpoint to the hop
+ * @param options - The curve of the key exchange and the secret that authenticates it
+ * @param name - Name for debugging
+ * @returns The endpoint, pass it to `consume()` or `provide()` or multiplex it
+ *
+ * @example
+ * ```typescript
+ * const endpoint = createEncryptedEndpoint(createWebsocketEndpoint(relay, 'relay'))
+ * const api = consume<API>(endpoint)
+ *
+ * // Later on, for forward secrecy
+ * await endpoint.rotateKey()
+ * ```
+ */
+export const createEncryptedEndpoint = (
+  endpoint: PostMessageEndpointBase<any>,
+  options: EncryptionOptions = {},
+  name = ''
+): EncryptedEndpoint => {
+  const { curve = 'P-256', secret } = options
+  const secretBytes = isString(secret) ? encodeText(secret) : secret ?? new Uint8Array()
+  const endpointID = /*#__PURE__*/ crypto.randomUUID()
+  const listenerMap = /*#__PURE__*/ new WeakBiMap<Listener<any>, true>()
+  const epochs = new Map<number, Promise<Epoch>>()
+  const deliverIncoming = createOrderedDelivery()
+  const deliverOutgoing = createOrderedDelivery()
+
+  let sendEpoch = -1
+
+  const toPayload = (bytes: Uint8Array) => isTextEndpoint(endpoint) ? encodeBase64(bytes) : bytes
+  const fromPayload = (payload: Uint8Array | string) => isString(payload) ? decodeBase64(payload) : new Uint8Array(toBytes(payload))
+
+  // Both sides may start the same epoch at once, the key pair is created only once
+  const getEpoch = (epoch: number): Promise<Epoch> => {
+    const existing = epochs.get(epoch)
+    if (existing) {return existing}
+    const created = crypto.subtle.generateKey({ name: 'ECDH', namedCurve: curve }, false, ['deriveBits']).then(async (keyPair): Promise<Epoch> => ({
+      epoch,
+      keyPair,
+      publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+      seq: 0,
+      lastPeerSeq: 0,
+      used: createDeferred()
+    }))
+    epochs.set(epoch, created)
+    return created
+  }
+
+  const sendKey = (state: Epoch, answer: boolean) => {
+    const message: KeyMessage = { encryption: 'key', epoch: state.epoch, publicKey: toPayload(state.publicKey), answer }
+    endpoint.postMessage(message)
+  }
+
+  // One AES key per direction, told apart by which side has the lower public key
+  const deriveKeys = async (state: Epoch, peerPublicKey: Uint8Array<ArrayBuffer>) => {
+    const peerKey = await crypto.subtle.importKey('raw', peerPublicKey, { name: 'ECDH', namedCurve: curve }, false, [])
+    const sharedBits = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, state.keyPair.privateKey, 256)
+    const baseKey = await crypto.subtle.importKey('raw', new Uint8Array([...new Uint8Array(sharedBits), ...secretBytes]), 'HKDF', false, ['deriveKey'])
+    const isLower = isLowerKey(state.publicKey, peerPublicKey)
+    const salt = new Uint8Array([...isLower ? state.publicKey : peerPublicKey, ...isLower ? peerPublicKey : state.publicKey])
+    const derive = (role: string, usage: KeyUsage) => crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: encodeText(`remobj-encryption:${role}`) },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      [usage]
+    )
+
+    state.keys = {
+      send: await derive(isLower ? 'lower' : 'higher', 'encrypt'),
+      receive: await derive(isLower ? 'higher' : 'lower', 'decrypt')
+    }
+    state.peerPublicKey = peerPublicKey
+    state.lastPeerSeq = 0
+  }
+
+  // The epoch messages are encrypted with, a rotation only replaces it once the peer answered
+  let sending = getEpoch(0).then(state => state.used.promise)
+
+  // Moves sending to a newer epoch and forgets the epochs before the previous one
+  const useEpoch = (state: Epoch) => {
+    if (state.epoch < sendEpoch) {return}
+    sendEpoch = state.epoch
+    sending = Promise.resolve(state)
+    state.used.resolve(state)
+    epochs.forEach((_, known) => {
+      if (known < sendEpoch - 1) {
+        epochs.delete(known)
+      }
+    })
+  }
+
+  const receiveKey = async ({ epoch, publicKey, answer }: KeyMessage) => {
+    if (epoch < sendEpoch - 1) {return}
+    const peerPublicKey = fromPayload(publicKey)
+    const state = await getEpoch(epoch)
+    if (!answer) {
+      sendKey(state, true)
+    }
+    if (!isSameKey(state.peerPublicKey, peerPublicKey)) {
+      await deriveKeys(state, peerPublicKey)
+      useEpoch(state)
+    }
+  }
+
+  const encrypt = async (data: unknown): Promise<EncryptedMessage> => {
+    const plaintext = msgpackCodec.encode(data) as ArrayBuffer
+    const state = await sending
+    const seq = ++state.seq
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: createIV(seq), additionalData: createAdditionalData(state.epoch) },
+      // Set before the epoch is used
+      state.keys?.send as CryptoKey,
+      plaintext
+    )
+    return { encryption: 'data', epoch: state.epoch, seq, payload: toPayload(new Uint8Array(ciphertext)) }
+  }
+
+  // Resolves to nothing for unknown epochs and sequence numbers that were seen before, rejects if authentication fails
+  const decryptNext = async ({ epoch, seq, payload }: EncryptedMessage): Promise<{ data: unknown } | undefined> => {
+    const state = await epochs.get(epoch)
+    if (!state?.keys || !(seq > state.lastPeerSeq)) {return undefined}
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: createIV(seq), additionalData: createAdditionalData(epoch) },
+      state.keys.receive,
+      fromPayload(payload)
+    )
+    state.lastPeerSeq = seq
+    return { data: msgpackCodec.decode(plaintext) }
+  }
+
+  // Frames are decrypted one after another, so a frame that arrives twice is checked against the
+  // sequence number only once its first copy was accepted
+  let decrypting: Promise<unknown> = Promise.resolve()
+
+  const decrypt = (message: EncryptedMessage): Promise<{ data: unknown } | undefined> => {
+    const decrypted = decrypting.then(() => decryptNext(message))
+    decrypting = decrypted.catch(NOOP)
+    return decrypted
+  }
+
+  // Key messages go through the same queue, so messages after them are decrypted with their keys
+  const mainListener = (ev: MessageEvent) => {
+    if (isKeyMessage(ev.data)) {
+      return deliverIncoming(receiveKey(ev.data), NOOP)
+    }
+    if (!isEncryptedMessage(ev.data)) {return}
+
+    deliverIncoming(decrypt(ev.data), decrypted => {
+      if (!decrypted) {return}
+      const { data } = decrypted
+      if (__DEV__ || __PROD_DEVTOOLS__) {
+        const traceID = getTraceID(data, ev.data)
+        devtools(traceID, 'event', endpointID, 'ENCRYPTION', name, '', data)
+      }
+
+      const ev2 = /*#__PURE__*/ new MessageEvent('message', { data })
+      listenerMap.forEach((_, l) => l(ev2))
+    })
+  }
+
+  endpoint.addEventListener('message', mainListener)
+
+  // Messages keep using the current keys until the peer answered
+  const rotateKey = async (): Promise<void> => {
+    const state = await getEpoch(Math.max(sendEpoch, ...epochs.keys()) + 1)
+    sendKey(state, false)
+    await state.used.promise
+  }
+
+  const ep: EncryptedEndpoint = {
+    addEventListener: (_type, listener) => listenerMap.set(listener, true),
+    removeEventListener: (_type, listener) => listenerMap.delete(listener),
+    postMessage: (data) => {
+      if (__DEV__ || __PROD_DEVTOOLS__) {
+        const traceID = getTraceID(data)
+        devtools(traceID, 'postMessage', endpointID, 'ENCRYPTION', name, '', data)
+      }
+      deliverOutgoing(encrypt(data), message => endpoint.postMessage(message))
+    },
+    rotateKey
+  }
+
+  getEpoch(0).then(state => sendKey(state, false))
+
+  onGarbageCollected(ep, () => endpoint.removeEventListener('message', mainListener))
+
+  return ep
+}
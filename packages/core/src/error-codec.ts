@@ -0,0 +1,121 @@
+import type { WrappedArgument } from "./rpc-types"
+
+/**
+ * Transfer format of an error, safe for structured clone and JSON
+ */
+export interface SerializedError {
+  name: string
+  /** Name of the constructor, used when the error does not set its own `name` */
+  className: string
+  message: string
+  stack?: string
+  cause?: WrappedArgument
+  errors?: WrappedArgument[]
+  /** Own enumerable fields such as `code` */
+  fields: Record<string, WrappedArgument>
+}
+
+type ErrorClass = abstract new (...args: any[]) => Error
+
+const BUILT_IN_ERRORS: ErrorClass[] = [Error, TypeError, RangeError, SyntaxError, ReferenceError, EvalError, URIError, AggregateError]
+
+const errorClasses = new Map<string, ErrorClass>(BUILT_IN_ERRORS.map(errorClass => [errorClass.name, errorClass]))
+
+// Errors currently being encoded, so an error that is its own cause does not recurse forever
+const encoding = new WeakSet<Error>()
+
+/**
+ * Registers an error class so errors thrown by a provider are revived as instances of it
+ *
+ * Errors are matched by their `name`, falling back to the name of their constructor.
+ * The constructor is not called when reviving; message, stack, cause and fields are
+ * copied onto an object with the prototype of the class.
+ *
+ * @param errorClass - The class to revive
+ * @param name - The name to match, defaults to the name of the class
+ *
+ * @example
+ * ```typescript
+ * class NotFoundError extends Error {
+ *   name = 'NotFoundError'
+ * }
+ * registerErrorClass(NotFoundError)
+ *
+ * try {
+ *   await remote.load('missing')
+ * } catch (error) {
+ *   error instanceof NotFoundError // true
+ * }
+ * ```
+ */
+export function registerErrorClass(errorClass: ErrorClass, name: string = errorClass.name): void {
+  errorClasses.set(name, errorClass)
+}
+
+/**
+ * Encodes an error with its cause, nested errors and own enumerable fields
+ * @param error - The error to encode
+ * @param wrap - Wraps nested values that are not clonable
+ * @returns The serialized error
+ */
+export const encodeError = (error: Error, wrap: (data: any) => WrappedArgument): SerializedError => {
+  encoding.add(error)
+  try {
+    const serialized: SerializedError = {
+      name: String(error.name),
+      className: error.constructor?.name ?? 'Error',
+      message: String(error.message),
+      fields: {}
+    }
+    if (typeof error.stack === 'string') {
+      serialized.stack = error.stack
+    }
+    if ('cause' in error && !(error.cause instanceof Error && encoding.has(error.cause))) {
+      serialized.cause = wrap(error.cause)
+    }
+    if ('errors' in error && Array.isArray(error.errors)) {
+      serialized.errors = error.errors.map(wrap)
+    }
+    for (const key of Object.keys(error)) {
+      if (key !== 'name' && key !== 'cause' && key !== 'errors') {
+        serialized.fields[key] = wrap((error as any)[key])
+      }
+    }
+    return serialized
+  } finally {
+    encoding.delete(error)
+  }
+}
+
+const defineHidden = (target: object, key: string, value: unknown) => {
+  Object.defineProperty(target, key, { value, writable: true, configurable: true, enumerable: false })
+}
+
+/**
+ * Revives an encoded error as an instance of its registered or built-in class
+ * @param serialized - The serialized error
+ * @param unwrap - Unwraps nested values
+ * @returns The revived error
+ */
+export const decodeError = (serialized: SerializedError, unwrap: (data: WrappedArgument) => any): Error => {
+  const errorClass = errorClasses.get(serialized.name) ?? errorClasses.get(serialized.className) ?? Error
+  const error: Error = Object.create(errorClass.prototype)
+
+  defineHidden(error, 'message', serialized.message)
+  if (serialized.stack !== undefined) {
+    defineHidden(error, 'stack', serialized.stack)
+  }
+  if (error.name !== serialized.name) {
+    defineHidden(error, 'name', serialized.name)
+  }
+  if (serialized.cause !== undefined) {
+    defineHidden(error, 'cause', unwrap(serialized.cause))
+  }
+  if (serialized.errors) {
+    defineHidden(error, 'errors', serialized.errors.map(unwrap))
+  }
+  for (const [key, value] of Object.entries(serialized.fields)) {
+    (error as any)[key] = unwrap(value)
+  }
+  return error
+}
@@ -0,0 +1,90 @@
+import { isPromise } from "@remobj/shared"
+import { releaseProxy } from "./rpc-consumer"
+
+/**
+ * The part of an event source that is exposed to consumers
+ */
+export interface Subscribable<T> {
+  /**
+   * Registers a listener for emitted values
+   * @param listener - Called with every emitted value
+   * @returns A function that removes the listener
+   */
+  subscribe: (listener: (value: T) => unknown) => () => void
+}
+
+/**
+ * An event source whose `subscribable` can be provided to remote consumers
+ */
+export interface RemoteEventSource<T> {
+  /**
+   * The object to expose through `provide()`
+   */
+  readonly subscribable: Subscribable<T>
+
+  /**
+   * Calls every listener with the value
+   * @param value - The value to emit
+   */
+  emit(value: T): void
+
+  /**
+   * Number of currently subscribed listeners
+   */
+  readonly listenerCount: number
+}
+
+/**
+ * Creates an event source for remote subscriptions
+ *
+ * Only `subscribable` is meant to be provided, so consumers can subscribe but not emit.
+ * A listener is removed when it throws or its returned promise rejects. For remote
+ * listeners this happens once their consumer is released, collected or revoked, so dead
+ * subscribers do not pile up. Removed remote listeners are released, which closes
+ * their sub-channel on both sides.
+ *
+ * @returns The event source
+ *
+ * @example
+ * ```typescript
+ * // Provider
+ * const changes = createEventSource<State>()
+ * provide({ onChange: changes.subscribable }, endpoint)
+ * changes.emit(state)
+ *
+ * // Consumer
+ * const unsubscribe = await remote.onChange.subscribe((state) => render(state))
+ * await unsubscribe()
+ * ```
+ */
+export function createEventSource<T>(): RemoteEventSource<T> {
+  const listeners = new Set<(value: T) => unknown>()
+
+  const unsubscribe = (listener: (value: T) => unknown): void => {
+    if (listeners.delete(listener)) {
+      releaseProxy(listener)
+    }
+  }
+
+  const subscribable: Subscribable<T> = {
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => unsubscribe(listener)
+    }
+  }
+
+  return {
+    subscribable,
+    emit: (value) => listeners.forEach(listener => {
+      try {
+        const result = listener(value)
+        if (isPromise(result)) {
+          result.catch(() => unsubscribe(listener))
+        }
+      } catch {
+        unsubscribe(listener)
+      }
+    }),
+    get listenerCount() { return listeners.size }
+  }
+}
@@ -0,0 +1,75 @@
+import { isArray, isObject, isString } from "@remobj/shared"
+import { isCodecEndpoint } from "./codec"
+import { realmId, version } from "./constants"
+import { getPluginNames } from "./rpc-wrapper"
+import type { PostMessageEndpoint } from "./types"
+
+/**
+ * Revision of the message protocol, increased on every incompatible change
+ */
+export const PROTOCOL_REVISION = 1
+
+/**
+ * Information both sides exchange in the handshake
+ */
+export interface PeerInfo {
+  /**
+   * remobj version of the peer
+   */
+  version: string
+
+  /**
+   * Protocol revision of the peer, both sides must match
+   */
+  protocol: number
+
+  /**
+   * ID of the realm the peer runs in
+   */
+  realmId: string
+
+  /**
+   * Registered type plugins, such as `Date` or `Error`
+   */
+  plugins: string[]
+
+  /**
+   * Message codecs the peer can decode
+   */
+  codecs: string[]
+
+  /**
+   * Sent by providers that require authentication, answered by the consumer's `authenticate` callback
+   */
+  challenge?: string
+}
+
+/** @internal */
+export const createPeerInfo = (codecs: string[], challenge?: string): PeerInfo => {
+  const peer: PeerInfo = { version, protocol: PROTOCOL_REVISION, realmId, plugins: getPluginNames(), codecs }
+  if (challenge !== undefined) {
+    peer.challenge = challenge
+  }
+  return peer
+}
+
+/**
+ * Switches a codec endpoint to the codec both sides use after the handshake, the first of the consumer's the provider knows
+ * @internal
+ */
+export const switchCodec = (endpoint: PostMessageEndpoint, consumerCodecs: unknown, providerCodecs: unknown): void => {
+  if (!isCodecEndpoint(endpoint) || !isArray(consumerCodecs) || !isArray(providerCodecs)) {return}
+  const codec = consumerCodecs.find(name => providerCodecs.includes(name))
+  if (isString(codec)) {endpoint.useCodec(codec)}
+}
+
+/** @internal */
+export const isCompatiblePeer = (peer: unknown): peer is PeerInfo => isObject(peer) && peer.protocol === PROTOCOL_REVISION
+
+/** @internal */
+export const createProtocolMismatchError = (peer?: unknown): Error => {
+  const other = isObject(peer)
+    ? `the other side speaks protocol ${String(peer.protocol)} (remobj ${String(peer.version)})`
+    : 'the other side does not support the handshake'
+  return new Error(__DEV__ ? `PROTOCOL MISMATCH - This side speaks protocol ${PROTOCOL_REVISION} (remobj ${version}), ${other}.` : `E020`)
+}
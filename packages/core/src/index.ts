@@ -1,4 +1,5 @@
-export { registerPlugin } from './rpc-wrapper.js'
+export { registerPlugin, transfer } from './rpc-wrapper.js'
+export { registerErrorClass, type SerializedError } from './error-codec.js'
 
 // Constants
 export { version, realmId } from './constants.js'
@@ -8,25 +9,61 @@ export type {
   Listener,
   PostMessageEndpointBase, 
   PostMessageEndpointString, 
-  PostMessageEndpoint 
+  PostMessageEndpoint,
+  TransferList
 } from './types.js'
 
 
 // Endpoint functionality
 export { wrapPostMessageEndpoint, createJsonEndpoint, connectEndpoints, createWebsocketEndpoint, createSendingEndpoint } from './wrap-endpoint.js'
+export { jsonCodec, type Codec, type CodecEndpoint } from './codec.js'
+export { msgpackCodec } from './msgpack.js'
+export { cborCodec } from './cbor.js'
+export { createCompressedEndpoint, type CompressionAlgorithm, type CompressionOptions } from './compression.js'
+export { createEncryptedEndpoint, type EncryptedEndpoint, type EncryptionOptions } from './encryption.js'
+export {
+  createSignedEndpoint,
+  type Ed25519SigningOptions,
+  type HmacSigningOptions,
+  type SignatureRejection,
+  type SigningOptions
+} from './signing.js'
+export {
+  createReconnectingWebsocketEndpoint,
+  createWebsocketSessionServer,
+  type ReconnectingEndpoint,
+  type ReconnectOptions,
+  type SessionServer,
+  type SessionServerOptions,
+  type SessionSocket,
+  type SessionState
+} from './websocket-session.js'
 
 // Multiplexing functionality
 export { createMultiplexedEndpoint, type Channel } from './multiplex.js'
 
 // RPC functionality
 export { provide } from './rpc-provider.js'
-export { consume } from './rpc-consumer.js'
+export { consume, releaseProxy, withOptions, remoteKeys, remoteHas, remoteSet, remoteDelete, remoteDescriptor, getPeerInfo } from './rpc-consumer.js'
+export { getCallContext, type CallContext } from './call-context.js'
+export { createEventSource, type RemoteEventSource, type Subscribable } from './event-source.js'
+export type { CallSchema, Validator, StandardSchemaV1, StandardSchemaResult } from './validation.js'
+export type { AccessPolicy, AccessRequest } from './access-policy.js'
+export type { Authenticator, AuthenticationRequest, CredentialsProvider } from './authentication.js'
+export type { Interceptor, InterceptedResponse } from './interceptors.js'
+export type { PeerInfo } from './handshake.js'
+export type { RetryPolicy } from './retry.js'
+export type { RateLimit, RateLimitConfig, RateLimitCounter, RateLimitStats } from './rate-limit.js'
+export type { RequestLimits } from './request-limits.js'
 export type { 
   Remote, 
   RemoteCallRequest, 
   RemoteCallResponse,
   ProvideConfig,
+  ProviderHandle,
   ConsumeConfig,
+  CallOptions,
+  RemotePropertyDescriptor,
   ForbiddenProperty 
 } from './rpc-types.js'
 
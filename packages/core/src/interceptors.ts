@@ -0,0 +1,51 @@
+import type { RemoteCallRequest, RemoteCallResponse } from "./rpc-types"
+
+/**
+ * Middleware around a remote call, registered through `ProvideConfig` or `ConsumeConfig`
+ *
+ * Interceptors run in the order they are listed, each one wrapping the ones after it.
+ * Call `next` to continue with a (possibly rewritten) request, or resolve with a response
+ * of your own to short-circuit.
+ *
+ * @example
+ * ```typescript
+ * const timing: Interceptor = async (request, next) => {
+ *   const start = performance.now()
+ *   const response = await next(request)
+ *   console.log(request.propertyPath, performance.now() - start)
+ *   return response
+ * }
+ * ```
+ */
+export type Interceptor = (
+  request: RemoteCallRequest,
+  next: (request: RemoteCallRequest) => Promise<InterceptedResponse>
+) => Promise<InterceptedResponse> | InterceptedResponse
+
+/**
+ * The part of a `RemoteCallResponse` an interceptor decides on. Request, consumer and
+ * provider IDs are filled in from the request
+ */
+export type InterceptedResponse = Pick<RemoteCallResponse, 'resultType' | 'result'>
+
+/**
+ * Runs a request through a list of interceptors and finally the handler
+ * @param interceptors - The interceptors, outermost first
+ * @param request - The request to run
+ * @param handler - Handles the request once every interceptor called next
+ * @returns The response produced by the chain
+ */
+export const runInterceptors = (
+  interceptors: readonly Interceptor[],
+  request: RemoteCallRequest,
+  handler: (request: RemoteCallRequest) => Promise<InterceptedResponse>
+): Promise<InterceptedResponse> => {
+  const dispatch = (index: number, current: RemoteCallRequest): Promise<InterceptedResponse> => {
+    const interceptor = interceptors[index]
+    if (!interceptor) {
+      return handler(current)
+    }
+    return new Promise(resolve => resolve(interceptor(current, next => dispatch(index + 1, next))))
+  }
+  return dispatch(0, request)
+}
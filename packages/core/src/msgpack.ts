@@ -0,0 +1,206 @@
+import { isArray, isString } from "@remobj/shared"
+import {
+  createByteReader,
+  createByteWriter,
+  createCodecError,
+  decodeText,
+  encodeText,
+  setProperty,
+  toBytes,
+  type ByteReader,
+  type ByteWriter,
+  type Codec
+} from "./codec"
+
+const NAME = 'msgpack'
+// fixext 1 with this type carries `undefined`, which MessagePack has no format for
+const UNDEFINED_EXT = 0
+
+// Writes a length with the smallest format, formats without an 8 bit variant pass 0 for it
+const writeLength = (writer: ByteWriter, length: number, fix: number, fixLimit: number, formats: [number, number, number]) => {
+  if (length < fixLimit) {
+    writer.u8(fix + length)
+  } else if (length <= 0xFF && formats[0] !== 0) {
+    writer.u8(formats[0])
+    writer.u8(length)
+  } else if (length <= 0xFF_FF) {
+    writer.u8(formats[1])
+    writer.u16(length)
+  } else {
+    writer.u8(formats[2])
+    writer.u32(length)
+  }
+}
+
+// Integers up to 32 bits use the smallest format, other numbers are 64 bit floats
+const writeNumber = (writer: ByteWriter, value: number) => {
+  if (!Number.isInteger(value) || Object.is(value, -0) || value < -0x80_00_00_00 || value > 0xFF_FF_FF_FF) {
+    writer.u8(0xCB)
+    writer.f64(value)
+  } else if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value)
+    } else if (value <= 0xFF) {
+      writer.u8(0xCC)
+      writer.u8(value)
+    } else if (value <= 0xFF_FF) {
+      writer.u8(0xCD)
+      writer.u16(value)
+    } else {
+      writer.u8(0xCE)
+      writer.u32(value)
+    }
+  } else if (value >= -0x20) {
+    writer.u8(0x1_00 + value)
+  } else if (value >= -0x80) {
+    writer.u8(0xD0)
+    writer.u8(0x1_00 + value)
+  } else if (value >= -0x80_00) {
+    writer.u8(0xD1)
+    writer.u16(0x1_00_00 + value)
+  } else {
+    writer.u8(0xD2)
+    writer.u32(0x1_00_00_00_00 + value)
+  }
+}
+
+// BigInts always use the 64 bit formats, which decode to BigInts again
+const writeBigInt = (writer: ByteWriter, value: bigint) => {
+  if (value >= 0n && value <= 0xFF_FF_FF_FF_FF_FF_FF_FFn) {
+    writer.u8(0xCF)
+    writer.u64(value)
+  } else if (value < 0n && value >= -0x80_00_00_00_00_00_00_00n) {
+    writer.u8(0xD3)
+    writer.u64(BigInt.asUintN(64, value))
+  } else {
+    throw createCodecError(NAME, 'can not encode a BigInt outside of 64 bits')
+  }
+}
+
+const write = (writer: ByteWriter, value: unknown): void => {
+  if (value === null) {
+    writer.u8(0xC0)
+  } else if (value === undefined) {
+    writer.u8(0xD4)
+    writer.u8(UNDEFINED_EXT)
+    writer.u8(0)
+  } else if (typeof value === 'boolean') {
+    writer.u8(value ? 0xC3 : 0xC2)
+  } else if (typeof value === 'number') {
+    writeNumber(writer, value)
+  } else if (typeof value === 'bigint') {
+    writeBigInt(writer, value)
+  } else if (isString(value)) {
+    const bytes = encodeText(value)
+    writeLength(writer, bytes.length, 0xA0, 32, [0xD9, 0xDA, 0xDB])
+    writer.bytes(bytes)
+  } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes = toBytes(value)
+    writeLength(writer, bytes.length, 0, 0, [0xC4, 0xC5, 0xC6])
+    writer.bytes(bytes)
+  } else if (isArray(value)) {
+    writeLength(writer, value.length, 0x90, 16, [0, 0xDC, 0xDD])
+    value.forEach(item => write(writer, item))
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value)
+    writeLength(writer, entries.length, 0x80, 16, [0, 0xDE, 0xDF])
+    entries.forEach(([key, item]) => {
+      write(writer, key)
+      write(writer, item)
+    })
+  } else {
+    throw createCodecError(NAME, `can not encode a ${typeof value}`)
+  }
+}
+
+const readArray = (reader: ByteReader, length: number) => Array.from({ length }, () => read(reader))
+
+const readMap = (reader: ByteReader, length: number) => {
+  const result: Record<string, unknown> = {}
+  for (let i = 0; i < length; i++) {
+    setProperty(result, read(reader), read(reader))
+  }
+  return result
+}
+
+// The only known extension is `undefined`
+const readExt = (reader: ByteReader, length: number): undefined => {
+  const type = reader.i8()
+  reader.bytes(length)
+  if (type !== UNDEFINED_EXT) {
+    throw createCodecError(NAME, `can not decode extension type ${type}`)
+  }
+}
+
+// Readers of the formats that are not fix ranges, by their first byte
+const formats: Record<number, (reader: ByteReader) => unknown> = {
+  // eslint-disable-next-line unicorn/no-null
+  0xC0: () => null,
+  0xC2: () => false,
+  0xC3: () => true,
+  0xC4: reader => reader.bytes(reader.u8()),
+  0xC5: reader => reader.bytes(reader.u16()),
+  0xC6: reader => reader.bytes(reader.u32()),
+  0xC7: reader => readExt(reader, reader.u8()),
+  0xC8: reader => readExt(reader, reader.u16()),
+  0xC9: reader => readExt(reader, reader.u32()),
+  0xCA: reader => reader.f32(),
+  0xCB: reader => reader.f64(),
+  0xCC: reader => reader.u8(),
+  0xCD: reader => reader.u16(),
+  0xCE: reader => reader.u32(),
+  0xCF: reader => reader.u64(),
+  0xD0: reader => reader.i8(),
+  0xD1: reader => reader.i16(),
+  0xD2: reader => reader.i32(),
+  0xD3: reader => reader.i64(),
+  0xD4: reader => readExt(reader, 1),
+  0xD5: reader => readExt(reader, 2),
+  0xD6: reader => readExt(reader, 4),
+  0xD7: reader => readExt(reader, 8),
+  0xD8: reader => readExt(reader, 16),
+  0xD9: reader => decodeText(reader.bytes(reader.u8())),
+  0xDA: reader => decodeText(reader.bytes(reader.u16())),
+  0xDB: reader => decodeText(reader.bytes(reader.u32())),
+  0xDC: reader => readArray(reader, reader.u16()),
+  0xDD: reader => readArray(reader, reader.u32()),
+  0xDE: reader => readMap(reader, reader.u16()),
+  0xDF: reader => readMap(reader, reader.u32())
+}
+
+const read = (reader: ByteReader): unknown => {
+  const format = reader.u8()
+  if (format < 0x80) {return format}
+  if (format < 0x90) {return readMap(reader, format - 0x80)}
+  if (format < 0xA0) {return readArray(reader, format - 0x90)}
+  if (format < 0xC0) {return decodeText(reader.bytes(format - 0xA0))}
+  if (format >= 0xE0) {return format - 0x1_00}
+
+  const readFormat = formats[format]
+  if (!readFormat) {
+    throw createCodecError(NAME, `can not decode format 0x${format.toString(16)}`)
+  }
+  return readFormat(reader)
+}
+
+/**
+ * Encodes messages as [MessagePack](https://msgpack.org) into `ArrayBuffer` frames
+ *
+ * Unlike JSON it keeps `undefined`, `BigInt` and binary data. 64 bit integers decode
+ * to `BigInt`s, binary data to `Uint8Array`s.
+ */
+export const msgpackCodec: Codec = {
+  name: NAME,
+  binary: true,
+  encode: (data) => {
+    const writer = createByteWriter()
+    write(writer, data)
+    return writer.finish()
+  },
+  decode: (frame) => {
+    if (isString(frame)) {
+      throw createCodecError(NAME, 'can not decode a string frame')
+    }
+    return read(createByteReader(NAME, frame))
+  }
+}
@@ -1,7 +1,7 @@
 import { onGarbageCollected } from "@remobj/shared"
 import { WeakBiMap } from "@remobj/weakbimap"
 import { devtools, getTraceID } from "./devtools.js"
-import type { Listener, PostMessageEndpointBase } from "./types.js"
+import type { Listener, PostMessageEndpointBase, TransferList } from "./types.js"
 
 interface MultiplexedMessage<T = unknown> {
   channelId: string
@@ -86,7 +86,7 @@ export const createMultiplexedEndpoint = (
 
       createSubChannel: <U>(subId: string) => createChannel<U>(`${channelId}/${subId}`),
 
-      postMessage: (data: T) => {
+      postMessage: (data: T, transfer?: TransferList) => {
         const channelData = { channelId, data }
         
         if (__DEV__ || __PROD_DEVTOOLS__) {
@@ -95,13 +95,16 @@ export const createMultiplexedEndpoint = (
           devtools(traceID, "postMessage", multiplexerID, 'CHANNEL', name, channelId, data)
         }
 
-        return baseEndpoint.postMessage(channelData)
+        return transfer ? baseEndpoint.postMessage(channelData, transfer) : baseEndpoint.postMessage(channelData)
       },
 
       addEventListener: (type: 'message', listener: Listener<T>) => channelListeners.get(channelId)?.add(listener as Listener<any>),
       removeEventListener: (type: 'message', listener: Listener<T>) => channelListeners.get(channelId)?.delete(listener as Listener<any>),
       // Sub-channels are intentionally not deleted as they may still be needed
-      close: () => channelListeners.delete(channelId)
+      close: () => {
+        channelListeners.delete(channelId)
+        channelRegistry.delete(channelId)
+      }
     }
 
     channelRegistry.set(channelId, channel)
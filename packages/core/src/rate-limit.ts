@@ -0,0 +1,176 @@
+import { hasOwnProperty } from "@remobj/shared"
+import type { RemoteCallRequest } from "./rpc-types"
+
+// Buckets of the keys that took the oldest tokens are dropped beyond this
+const MAX_BUCKETS = 10_000
+// Counters of the consumers that sent the oldest requests are dropped beyond this
+const MAX_CONSUMER_COUNTERS = 1000
+
+/**
+ * A token bucket: requests take a token, tokens refill continuously up to `burst`
+ */
+export interface RateLimit {
+  /**
+   * Tokens added per second
+   */
+  perSecond: number
+
+  /**
+   * Size of the bucket, i.e. how many requests may arrive at once
+   * @default perSecond
+   */
+  burst?: number
+}
+
+/**
+ * Rate limits of a provider, requests beyond any of them are rejected with E021
+ */
+export interface RateLimitConfig {
+  /**
+   * Limit shared by all requests to the provider
+   *
+   * Consumer and realm IDs are chosen by the consumers, a consumer that sends each request with
+   * a new ID evades the `consumer` and `realm` limits but not this one.
+   */
+  provider?: RateLimit
+
+  /**
+   * Limit for each consumer, keyed by `consumerID`
+   */
+  consumer?: RateLimit
+
+  /**
+   * Limit for each realm, shared by all consumers in it
+   */
+  realm?: RateLimit
+
+  /**
+   * Limits for each consumer on a path, keyed by the dot-separated property path (`'users.create'`)
+   */
+  paths?: Record<string, RateLimit>
+}
+
+/**
+ * Counters of allowed and rejected requests
+ */
+export interface RateLimitCounter {
+  allowed: number
+  rejected: number
+}
+
+/**
+ * Counters returned by `ProviderHandle.getRateLimitStats()`
+ */
+export interface RateLimitStats extends RateLimitCounter {
+  /**
+   * Counters by consumer ID, dropped once the consumer is gone. Only the 1000 consumers with the
+   * latest requests are counted
+   */
+  consumers: Record<string, RateLimitCounter>
+
+  /**
+   * Counters by limited path
+   */
+  paths: Record<string, RateLimitCounter>
+}
+
+/** @internal */
+export interface RateLimiter {
+  /** Takes a token from every bucket that applies to a request, or none if one of them is empty */
+  take(request: Pick<RemoteCallRequest, 'consumerID' | 'realmId'>, path: string | undefined): boolean
+  getStats(): RateLimitStats
+  forgetConsumer(consumerID: string): void
+}
+
+interface Bucket {
+  tokens: number
+  updated: number
+}
+
+const count = (counters: Map<string, RateLimitCounter>, key: string, isAllowed: boolean, maxCounters = Infinity) => {
+  let counter = counters.get(key)
+  if (counter) {
+    // Moved to the end, so the counters of idle keys are dropped first
+    counters.delete(key)
+  } else {
+    counter = { allowed: 0, rejected: 0 }
+    if (counters.size >= maxCounters) {
+      counters.delete(counters.keys().next().value ?? '')
+    }
+  }
+  counters.set(key, counter)
+  counter[isAllowed ? 'allowed' : 'rejected']++
+}
+
+/**
+ * Creates the token buckets for a rate limit config
+ * @param config - The limits to enforce
+ * @returns Functions to take a token for a request, read the counters and forget a consumer
+ */
+export const createRateLimiter = (config: RateLimitConfig): RateLimiter => {
+  const { provider, consumer, realm, paths = {} } = config
+  const buckets = new Map<string, Bucket>()
+  const totals: RateLimitCounter = { allowed: 0, rejected: 0 }
+  const consumerCounters = new Map<string, RateLimitCounter>()
+  const pathCounters = new Map<string, RateLimitCounter>()
+
+  // Keys without a bucket have a full one, buckets are only created once a token is taken from them
+  const getTokens = (key: string, limit: RateLimit, now: number): number => {
+    const burst = limit.burst ?? limit.perSecond
+    const bucket = buckets.get(key)
+    return bucket ? Math.min(burst, bucket.tokens + (now - bucket.updated) / 1000 * limit.perSecond) : burst
+  }
+
+  const setTokens = (key: string, tokens: number, now: number) => {
+    if (buckets.has(key)) {
+      // Moved to the end, so the buckets of idle keys are dropped first
+      buckets.delete(key)
+    } else if (buckets.size >= MAX_BUCKETS) {
+      buckets.delete(buckets.keys().next().value ?? '')
+    }
+    buckets.set(key, { tokens, updated: now })
+  }
+
+  const take = (request: Pick<RemoteCallRequest, 'consumerID' | 'realmId'>, path: string | undefined): boolean => {
+    const now = Date.now()
+    // Shared limits come first, so requests they reject are checked against no other bucket
+    const limits: [string, RateLimit][] = []
+    if (provider) {
+      limits.push(['provider', provider])
+    }
+    if (realm) {
+      limits.push([`realm:${request.realmId}`, realm])
+    }
+    if (consumer) {
+      limits.push([`consumer:${request.consumerID}`, consumer])
+    }
+    const pathLimit = path !== undefined && hasOwnProperty(paths, path) ? paths[path] : undefined
+    if (path !== undefined && pathLimit) {
+      limits.push([`path:${request.consumerID}:${path}`, pathLimit])
+    }
+
+    const isAllowed = limits.every(([key, limit]) => getTokens(key, limit, now) >= 1)
+    if (isAllowed) {
+      limits.forEach(([key, limit]) => setTokens(key, getTokens(key, limit, now) - 1, now))
+    }
+
+    totals[isAllowed ? 'allowed' : 'rejected']++
+    count(consumerCounters, request.consumerID, isAllowed, MAX_CONSUMER_COUNTERS)
+    if (path !== undefined && pathLimit) {
+      count(pathCounters, path, isAllowed)
+    }
+    return isAllowed
+  }
+
+  const getStats = (): RateLimitStats => ({
+    allowed: totals.allowed,
+    rejected: totals.rejected,
+    consumers: Object.fromEntries([...consumerCounters].map(([key, counter]) => [key, { allowed: counter.allowed, rejected: counter.rejected }])),
+    paths: Object.fromEntries([...pathCounters].map(([key, counter]) => [key, { allowed: counter.allowed, rejected: counter.rejected }]))
+  })
+
+  // Buckets are kept, so a consumer can not refill its own by unregistering
+  const forgetConsumer = (consumerID: string) => { consumerCounters.delete(consumerID) }
+
+  return { take, getStats, forgetConsumer }
+}
@@ -0,0 +1,114 @@
+import { isArray, isObject, isString } from "@remobj/shared"
+import type { RemoteCallRequest } from "./rpc-types"
+
+/**
+ * Upper bounds for incoming requests, checked before the provider navigates the
+ * property path or unwraps any argument. Use `Infinity` to lift a limit
+ */
+export interface RequestLimits {
+  /**
+   * Arguments per request
+   * @default 100
+   */
+  maxArgCount?: number
+
+  /**
+   * Segments of the property path
+   * @default 20
+   */
+  maxPathDepth?: number
+
+  /**
+   * Estimated size of a single argument in bytes, including the values nested in it. Also limits the metadata of a request
+   * @default 1048576 (1 MB)
+   */
+  maxArgSize?: number
+
+  /**
+   * Characters of a single property name
+   * @default 256
+   */
+  maxPropertyLength?: number
+}
+
+/** @internal */
+export const DEFAULT_REQUEST_LIMITS: Required<RequestLimits> = {
+  maxArgCount: 100,
+  maxPathDepth: 20,
+  maxArgSize: 1024 * 1024,
+  maxPropertyLength: 256
+}
+
+// Estimates the size of a value, stopping early once it exceeds the budget. Shared
+// references and cycles are counted once, as structured clone sends them once
+const estimateSize = (value: unknown, budget: number): number => {
+  const seen = new Set<object>()
+  let size = 0
+  const pending: unknown[] = [value]
+
+  while (pending.length > 0 && size <= budget) {
+    const current = pending.pop()
+    if (isString(current)) {
+      size += current.length * 2
+    } else if (typeof current === 'bigint') {
+      size += current.toString(16).length
+    } else if (!isObject(current)) {
+      size += 8
+    } else if (!seen.has(current)) {
+      seen.add(current)
+      if (current instanceof ArrayBuffer || ArrayBuffer.isView(current)) {
+        size += current.byteLength
+      } else if (current instanceof Blob) {
+        size += current.size
+      } else if (current instanceof Map) {
+        current.forEach((entry, key) => pending.push(key, entry))
+      } else if (current instanceof Set) {
+        current.forEach(entry => pending.push(entry))
+      } else {
+        for (const key of Object.keys(current)) {
+          size += key.length * 2
+          pending.push((current as Record<string, unknown>)[key])
+        }
+      }
+    }
+  }
+  return size
+}
+
+/**
+ * Checks a request against the limits while its arguments are still wrapped, so values
+ * nested in wrapped arguments count towards the size of the argument they belong to
+ * @param request - The incoming request
+ * @param limits - The limits of the provider
+ * @returns The error to reject the request with, or undefined if it is within the limits
+ * @internal
+ */
+export const checkRequestLimits = (request: RemoteCallRequest, limits: Required<RequestLimits>): Error | undefined => {
+  const { maxArgCount, maxPathDepth, maxArgSize, maxPropertyLength } = limits
+  const args: unknown[] = isArray(request.args) ? request.args : []
+  const propertyChain = isString(request.propertyPath) ? request.propertyPath.split('/').filter(Boolean) : []
+
+  if (args.length > maxArgCount) {
+    return new Error(__DEV__ ? `TOO MANY ARGUMENTS - The request has ${args.length} arguments, the limit is ${maxArgCount}.` : `E022`)
+  }
+  if (propertyChain.length > maxPathDepth) {
+    return new Error(__DEV__ ? `PATH TOO DEEP - The property path has ${propertyChain.length} segments, the limit is ${maxPathDepth}.` : `E023`)
+  }
+
+  // has, describe and delete name the inspected property in their first argument, a raw wrapped string
+  const [key] = args
+  const inspected = (request.operationType === 'has' || request.operationType === 'describe' || request.operationType === 'delete') && isObject(key) ? key.value : undefined
+  const property = [...propertyChain, ...isString(inspected) ? [inspected] : []].find(segment => segment.length > maxPropertyLength)
+  if (property !== undefined) {
+    return new Error(__DEV__ ? `PROPERTY NAME TOO LONG - A property name has ${property.length} characters, the limit is ${maxPropertyLength}.` : `E024`)
+  }
+
+  const index = args.findIndex(arg => estimateSize(arg, maxArgSize) > maxArgSize)
+  if (index !== -1) {
+    return new Error(__DEV__ ? `ARGUMENT TOO LARGE - Argument ${index} exceeds the limit of ${maxArgSize} bytes.` : `E025`)
+  }
+  if (estimateSize(request.metadata, maxArgSize) > maxArgSize) {
+    return new Error(__DEV__ ? `METADATA TOO LARGE - The metadata of the request exceeds the limit of ${maxArgSize} bytes.` : `E030`)
+  }
+  return undefined
+}
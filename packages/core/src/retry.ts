@@ -0,0 +1,104 @@
+import { isObject, isString } from "@remobj/shared"
+
+/**
+ * Describes when and how often a failed request is sent again
+ *
+ * Retried requests carry an idempotency key, so the provider answers a retry of a
+ * request it already handled from its cache instead of running it twice.
+ */
+export interface RetryPolicy {
+  /**
+   * Attempts in total, including the first one
+   * @default 3
+   */
+  attempts?: number
+
+  /**
+   * Delay before the first retry in milliseconds, doubled for every further retry
+   * @default 100
+   */
+  delay?: number
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds
+   * @default 5000
+   */
+  maxDelay?: number
+
+  /**
+   * Error codes that count as retryable, matched against the `code` of the error or its
+   * message, or a callback deciding per error
+   * @default ['E002'] (timeouts)
+   */
+  retryOn?: string[] | ((error: unknown, attempt: number) => boolean)
+}
+
+/**
+ * Applies per-call retry options on top of the consumer's policy
+ * @param base - The policy from `ConsumeConfig`
+ * @param override - The policy from `CallOptions`, `false` disables retries
+ * @returns The effective policy, or undefined if the request is sent only once
+ */
+export const resolveRetryPolicy = (base: RetryPolicy | undefined, override: RetryPolicy | false | undefined): RetryPolicy | undefined => {
+  if (override === false) {
+    return undefined
+  }
+  const policy: RetryPolicy | undefined = base && override
+    ? {
+      attempts: override.attempts ?? base.attempts,
+      delay: override.delay ?? base.delay,
+      maxDelay: override.maxDelay ?? base.maxDelay,
+      retryOn: override.retryOn ?? base.retryOn
+    }
+    : override ?? base
+  return policy && (policy.attempts ?? 3) > 1 ? policy : undefined
+}
+
+const getErrorCode = (error: unknown): string | undefined => {
+  if (!isObject(error)) {
+    return undefined
+  }
+  if (isString(error.code)) {
+    return error.code
+  }
+  return isString(error.message) ? error.message : undefined
+}
+
+const isRetryable = (policy: RetryPolicy, error: unknown, attempt: number): boolean => {
+  const { retryOn = ['E002'] } = policy
+  if (typeof retryOn === 'function') {
+    return retryOn(error, attempt)
+  }
+  const code = getErrorCode(error)
+  return code !== undefined && retryOn.includes(code)
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', done)
+    resolve()
+  }
+  const timer = setTimeout(done, ms)
+  signal?.addEventListener('abort', done, { once: true })
+})
+
+/**
+ * Runs an attempt until it succeeds, fails with an error the policy does not retry or runs out of attempts
+ * @param policy - The retry policy
+ * @param attempt - Sends the request once
+ * @param signal - Stops waiting for the next attempt when aborted
+ * @returns The result of the first successful attempt
+ */
+export const retry = <T>(policy: RetryPolicy, attempt: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const { attempts = 3, delay = 100, maxDelay = 5000 } = policy
+
+  const run = (count: number): Promise<T> => attempt().catch((error) => {
+    if (count >= attempts || signal?.aborted || !isRetryable(policy, error, count)) {
+      throw error
+    }
+    return sleep(Math.min(maxDelay, delay * 2 ** (count - 1)), signal).then(() => run(count + 1))
+  })
+
+  return run(1)
+}
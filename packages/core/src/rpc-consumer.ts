@@ -1,19 +1,242 @@
-import { isSymbol, onGarbageCollected } from "@remobj/shared"
+import { isString, isSymbol, NOOP, onGarbageCollected } from "@remobj/shared"
 import { WeakBiMap } from "@remobj/weakbimap"
 import { realmId } from "./constants"
 import { createArgumentWrappingEndpoint } from "./rpc-wrapper"
+import { runInterceptors, type InterceptedResponse } from "./interceptors"
+import { resolveRetryPolicy, retry } from "./retry"
+import { createPeerInfo, createProtocolMismatchError, isCompatiblePeer, switchCodec, type PeerInfo } from "./handshake"
+import { getCodecNames } from "./codec"
+import type { CredentialsProvider } from "./authentication"
+import { getCallContext } from "./call-context"
+import { createDeadlineError, getEarliestDeadline, isDeadlineError } from "./deadline"
 import { devtools, getTraceID } from "./devtools"
 import { createMultiplexedEndpoint } from "./multiplex"
-import type {
-  ConsumeConfig,
-  Remote,
-  RemoteCallRequest,
-  RemoteCallResponse
+import {
+  NOTIFICATION_OPERATIONS,
+  type CallOptions,
+  type ConsumeConfig,
+  type Remote,
+  type RemoteCallRequest,
+  type RemoteCallResponse,
+  type RemotePropertyDescriptor
 } from "./rpc-types"
 import type { PostMessageEndpoint } from "./types"
 
 // Constants for connection management
 const PING_INTERVAL_MS = 60 * 1000 // 60 seconds
+const HELLO_RETRY_MS = 250
+
+// A proxy path that starts at the pending result of an earlier call
+interface Pipeline {
+  resultOf: string
+  // Only set on the proxy that stands for the call itself
+  promise?: Promise<any> & AsyncIterable<unknown>
+}
+
+interface ProxyController {
+  release: () => void
+  withOptions: (options: CallOptions) => any
+  // Sends an operation for the property path of the proxy
+  request: (operationType: RemoteCallRequest['operationType'], args: any[]) => Promise<any>
+  // Sets a property of the object at the property path of the proxy
+  assign: (property: string, value: unknown) => Promise<any>
+  getPeerInfo: () => Promise<PeerInfo>
+}
+
+// Maps every proxy created by a consumer to the functions controlling it
+const proxyControllers = new WeakMap<object, ProxyController>()
+
+const createReleasedError = (): Error => new Error(__DEV__ ? 'PROXY RELEASED - The remote proxy was released and can no longer be used.' : 'E012')
+
+// Views derived from a view add to its metadata
+const mergeMetadata = (base?: Record<string, string>, added?: Record<string, string>) =>
+  base && added ? Object.fromEntries([...Object.entries(base), ...Object.entries(added)]) : added ?? base
+
+// Options of a view derived from another view override its options, their metadata is merged
+const mergeCallOptions = (base: CallOptions | undefined, added: CallOptions): CallOptions =>
+  Object.assign(Object.fromEntries([...Object.entries(base ?? {}), ...Object.entries(added)]) as CallOptions, { metadata: mergeMetadata(base?.metadata, added.metadata) })
+
+// Arguments are wrapped in place when sent, so every attempt of a retried request sends a copy
+const copyRequest = (request: RemoteCallRequest): RemoteCallRequest =>
+  Object.assign(Object.fromEntries(Object.entries(request)) as RemoteCallRequest, { args: [...request.args] })
+
+const getProxyController = (remote: unknown): ProxyController => {
+  const controller = proxyControllers.get(remote as object)
+  if (!controller) {
+    throw new Error(__DEV__ ? 'NOT A REMOTE PROXY - Expected a proxy returned by consume().' : 'E014')
+  }
+  return controller
+}
+
+/**
+ * Releases the consumer a remote proxy belongs to
+ *
+ * Detaches the response listener, stops the ping interval, rejects all in-flight
+ * calls with E012 and notifies the provider via `gc-collect`. Any proxy of the
+ * consumer (root or nested) can be passed. Calling it more than once is a no-op.
+ *
+ * @param remote - A proxy returned by `consume()` or one of its nested proxies
+ *
+ * @example
+ * ```typescript
+ * const api = consume<API>(endpoint)
+ * await api.doWork()
+ * releaseProxy(api)
+ *
+ * // or with explicit resource management
+ * using remote = consume<API>(endpoint)
+ * ```
+ */
+export function releaseProxy(remote: unknown): void {
+  return proxyControllers.get(remote as object)?.release()
+}
+
+/**
+ * Derives a view of a remote proxy whose calls use the given per-call options
+ *
+ * The returned proxy and all proxies reached through it share the consumer,
+ * multiplexer and ping interval of the original proxy.
+ *
+ * @param remote - A proxy returned by `consume()` or one of its nested proxies
+ * @param options - Options applied to every call made through the view
+ * @returns The derived proxy
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController()
+ * const result = withOptions(remote.search, { signal: controller.signal })('query')
+ * controller.abort() // rejects `result` and cancels the call on the provider
+ *
+ * const report = await withOptions(remote.reports.heavy, { timeout: 120, metadata: { tenant: 'acme' } })()
+ * ```
+ */
+export function withOptions<T>(remote: T, options: CallOptions): T {
+  return getProxyController(remote).withOptions(options)
+}
+
+/**
+ * Exchanges versions and capabilities with the provider behind a remote proxy
+ *
+ * Consumers created with `handshake: true` return the result of their initial handshake,
+ * others send a hello on first use.
+ *
+ * @param remote - A proxy returned by `consume()` or one of its nested proxies
+ * @returns A promise for the provider's info, rejected with E020 if the protocols do not match
+ *
+ * @example
+ * ```typescript
+ * const { version, plugins } = await getPeerInfo(remote)
+ * ```
+ */
+export function getPeerInfo(remote: unknown): Promise<PeerInfo> {
+  return getProxyController(remote).getPeerInfo()
+}
+
+/**
+ * Lists the own enumerable keys of a remote object
+ *
+ * Proxy traps are synchronous, so `Object.keys(remote)` can not reach the provider.
+ * Forbidden properties such as `__proto__` are never listed.
+ *
+ * @param remote - A proxy returned by `consume()` or one of its nested proxies
+ * @returns A promise for the keys of the remote object
+ *
+ * @example
+ * ```typescript
+ * const keys = await remoteKeys(remote.settings) // ['theme', 'language']
+ * ```
+ */
+export function remoteKeys(remote: unknown): Promise<string[]> {
+  return getProxyController(remote).request('keys', [])
+}
+
+/**
+ * Checks whether a remote object has a property, like the `in` operator
+ *
+ * @param remote - A proxy returned by `consume()` or one of its nested proxies
+ * @param key - The property to look up
+ * @returns A promise for `true` if the property exists on the object or its prototype chain
+ */
+export function remoteHas(remote: unknown, key: string): Promise<boolean> {
+  return getProxyController(remote).request('has', [key])
+}
+
+/**
+ * Sets a property of a remote object and waits for the provider, unlike an assignment
+ *
+ * Requires `allowWrite` on the provider. `remote.config.level = 3` sends the same
+ * operation without waiting for the result, its errors go to `ConsumeConfig.onError`.
+ *
+ * @param remote - A proxy returned by `consume()` or one of its nested proxies
+ * @param key - The property to set
+ * @param value - The new value
+ * @returns A promise that resolves once the property is set, rejected with E008 to E010 if the provider refuses
+ *
+ * @example
+ * ```typescript
+ * await remoteSet(remote.config, 'level', 3)
+ * ```
+ */
+export function remoteSet(remote: unknown, key: string, value: unknown): Promise<true> {
+  return getProxyController(remote).assign(key, value)
+}
+
+/**
+ * Deletes a property of a remote object, like the `delete` operator
+ *
+ * Requires `allowWrite` on the provider. `delete remote.cache[key]` sends the same
+ * operation without waiting for the result, its errors go to `ConsumeConfig.onError`.
+ *
+ * @param remote - A proxy returned by `consume()` or one of its nested proxies
+ * @param key - The property to delete
+ * @returns A promise that resolves once the property is deleted
+ */
+export function remoteDelete(remote: unknown, key: string): Promise<true> {
+  return getProxyController(remote).request('delete', [key])
+}
+
+/**
+ * Reads the descriptor of an own property of a remote object
+ *
+ * @param remote - A proxy returned by `consume()` or one of its nested proxies
+ * @param key - The property to describe
+ * @returns A promise for the descriptor, or `undefined` if there is no such own property
+ */
+export function remoteDescriptor(remote: unknown, key: string): Promise<RemotePropertyDescriptor | undefined> {
+  return getProxyController(remote).request('describe', [key])
+}
+
+/**
+ * Makes the promise of a remote call iterable with `for await` when it resolves to an async iterable
+ */
+const makeAsyncIterable = (promise: Promise<any>): Promise<any> & AsyncIterable<unknown> => {
+  let iterator: Promise<AsyncIterator<unknown>> | undefined
+  const getIterator = (): Promise<AsyncIterator<unknown>> => {
+    // Created lazily so a rejected call is not reported twice
+    if (!iterator) {
+      iterator = promise.then((iterable: AsyncIterable<unknown>) => iterable[Symbol.asyncIterator]())
+    }
+    return iterator
+  }
+
+  const lazyIterator: AsyncIterator<unknown> = {
+    next: async (value?: unknown) => {
+      const resolvedIterator = await getIterator()
+      return resolvedIterator.next(value)
+    },
+    return: async (value?: unknown) => {
+      const resolvedIterator = await getIterator()
+      return resolvedIterator.return ? resolvedIterator.return(value) : { done: true, value }
+    },
+    throw: async (error?: unknown) => {
+      const resolvedIterator = await getIterator()
+      if (resolvedIterator.throw) {return resolvedIterator.throw(error)}
+      throw error
+    }
+  }
+
+  return Object.assign(promise, { [Symbol.asyncIterator]: () => lazyIterator })
+}
 
 /**
  * Creates a proxy object that forwards all operations to a remote endpoint
@@ -21,15 +244,34 @@ const PING_INTERVAL_MS = 60 * 1000 // 60 seconds
  * @param config - Configuration options for the consumer
  * @returns A proxied object that converts all operations to async RPC calls
  */
-export function consume<T = any>(endpoint: PostMessageEndpoint, config: ConsumeConfig = {}): Remote<T> {
-  const { timeout = 0, name = '' } = config
+export function consume<T = any>(endpoint: PostMessageEndpoint, config: ConsumeConfig = {}): Remote<T> & Disposable & AsyncDisposable {
+  const { timeout = 0, name = '', interceptors = [], handshake = false, retry: retryPolicy, authenticate, onError } = config
   const pendingPromises = new Map<string, { resolve: (data: any) => void, reject: (data: any) => void }>()
   const proxyCache = new WeakBiMap<string, any>()
   const consumerID: string = /*#__PURE__*/ crypto.randomUUID()
   const multiplexedEndpoint = /*#__PURE__*/ createArgumentWrappingEndpoint(createMultiplexedEndpoint(endpoint), `${name} -> ArgumentWrapper`)
   const timeoutHandles = new Map<string, any>()
+  // Calls still running through the interceptors, so operations pipelined on them are not sent first
+  const interceptedCalls = new Map<string, Promise<void>>()
+  let isReleased = false
+  // Set while the handshake runs, requests are held back until it completes
+  let connecting: Promise<unknown> | undefined
+  let isConnectionFailed = false
+  let peerInfo: Promise<PeerInfo> | undefined
+  // Proxies not collected yet. Once they are all gone and no call is pending, nothing can use the consumer anymore
+  let liveProxies = 0
+  // Proxies registered with the provider. Proxies for call results only register once operations are pipelined on them
+  let registeredProxies = 0
+  // Set once the last registered proxy left the consumer registered for the call results still held
+  let isConsumerKept = false
+
+  // Rejects with E029 at a deadline that passes before the timeout, with E002 at the timeout otherwise
+  const createPromise = (requestID: string, traceID: string, deadline?: number, callTimeout = timeout) => {
+    const expiresIn = deadline === undefined ? undefined : deadline - Date.now()
+    const isDeadlineFirst = expiresIn !== undefined && (!callTimeout || expiresIn < callTimeout * 1000)
+    // The code lets retry policies recognize timeouts in development builds as well
+    const createTimeoutError = () => Object.assign(new Error(__DEV__ ? `Promise not resolved after timout of ${callTimeout} seconds. RequestID: ${requestID}` : `E002`), { code: 'E002' })
 
-  const createPromise = (requestID: string, traceID: string) => {
     const p = new Promise((resolve, reject) => {
       let isSettled = false
       
@@ -41,6 +283,7 @@ export function consume<T = any>(endpoint: PostMessageEndpoint, config: ConsumeC
         if (timeoutHandle) {clearTimeout(timeoutHandle)}
         pendingPromises.delete(requestID)
         timeoutHandles.delete(requestID)
+        collectIfUnused()
       }
 
       pendingPromises.set(requestID, {
@@ -54,19 +297,22 @@ export function consume<T = any>(endpoint: PostMessageEndpoint, config: ConsumeC
           if (isSettled) {return}
           if ((__DEV__ || __PROD_DEVTOOLS__)) {devtools(traceID, 'event', traceID, 'PROMISE', requestID, 'reject', error)}
           cleanup()
-          reject(error)
+          // The provider enforces the timeout as a deadline too, and may report it before the own timer fires
+          reject(!isDeadlineFirst && callTimeout && isDeadlineError(error) ? createTimeoutError() : error)
         }
       })
 
-      if (timeout) {
+      if (isDeadlineFirst) {
+        timeoutHandles.set(requestID, /*#__PURE__*/ setTimeout(() => pendingPromises.get(requestID)?.reject(createDeadlineError()), expiresIn))
+      } else if (callTimeout) {
         timeoutHandles.set(requestID, /*#__PURE__*/ setTimeout(
           () => {
             const pending = pendingPromises.get(requestID)
             if (pending && !isSettled) {
-              pending.reject(/*#__PURE__*/ new Error(__DEV__ ? `Promise not resolved after timout of ${timeout} seconds. RequestID: ${requestID}` : `E002`))
+              pending.reject(/*#__PURE__*/ createTimeoutError())
             }
           },
-          timeout * 1000
+          callTimeout * 1000
         ))
       }
     })
@@ -96,12 +342,101 @@ export function consume<T = any>(endpoint: PostMessageEndpoint, config: ConsumeC
 
   multiplexedEndpoint.addEventListener('message', responseListener)
 
+  const post = (request: RemoteCallRequest, traceID: string) => {
+    if ((__DEV__ || __PROD_DEVTOOLS__)) {
+      devtools(traceID, "postMessage",  consumerID, 'CONSUMER', name, '' , request)
+    }
+
+    multiplexedEndpoint.postMessage(request)
+  }
+
+  // Repeats the hello until the provider answers, as it may not be listening yet
+  const sayHello = (): Promise<PeerInfo> => {
+    const requestID = /*#__PURE__*/ crypto.randomUUID()
+    const createHello = (): RemoteCallRequest => ({
+      requestID,
+      operationType: 'hello',
+      propertyPath: '',
+      args: [createPeerInfo(getCodecNames(endpoint))],
+      consumerID,
+      realmId
+    })
+
+    const hello = createHello()
+    const traceID = getTraceID(hello)
+    const answer = createPromise(requestID, traceID)
+    post(hello, traceID)
+    const retryInterval = setInterval(() => post(createHello(), traceID), HELLO_RETRY_MS)
+
+    return answer.then(
+      (peer) => {
+        if (!isCompatiblePeer(peer)) {throw createProtocolMismatchError(peer)}
+        // The provider switched to the same codec after answering
+        switchCodec(endpoint, getCodecNames(endpoint), peer.codecs)
+        return peer
+      },
+      (error) => {
+        // Providers without handshake support reject the unknown operation
+        const isUnknownOperation = error instanceof Error && /Unknown operation type|^E011$/.test(error.message)
+        throw isUnknownOperation ? createProtocolMismatchError() : error
+      }
+    ).finally(() => clearInterval(retryInterval))
+  }
+
+  // Sent once after the hello, the provider is known to listen by then
+  const sendCredentials = async (getCredentials: CredentialsProvider, challenge: string): Promise<void> => {
+    const credentials = await getCredentials(challenge)
+    const request: RemoteCallRequest = {
+      requestID: /*#__PURE__*/ crypto.randomUUID(),
+      operationType: 'authenticate',
+      propertyPath: '',
+      args: [credentials],
+      consumerID,
+      realmId
+    }
+    const traceID = getTraceID(request)
+    const answer = createPromise(request.requestID, traceID)
+    post(request, traceID)
+    await answer
+  }
+
+  // Providers that do not send a challenge do not require authentication
+  const getConnectionInfo = () => {
+    peerInfo ??= sayHello().then(peer => authenticate && isString(peer.challenge) ? sendCredentials(authenticate, peer.challenge).then(() => peer) : peer)
+    return peerInfo
+  }
+
+  if (handshake || authenticate) {
+    connecting = getConnectionInfo().then(
+      () => { connecting = undefined },
+      (error: Error) => {
+        isConnectionFailed = true
+        pendingPromises.forEach(pending => pending.reject(error))
+      }
+    )
+  }
+
   const remoteCall = (
     operationType: RemoteCallRequest["operationType"],
     propertyPath: string,
-    args: any[]
+    args: any[],
+    callOptions: CallOptions = {},
+    resultOf?: string,
+    requestID: string = /*#__PURE__*/ crypto.randomUUID()
   ): Promise<any> => {
-    const requestID = /*#__PURE__*/ crypto.randomUUID()
+    const isNotification = NOTIFICATION_OPERATIONS.includes(operationType)
+    const { signal, priority, metadata, timeout: callTimeout = timeout } = callOptions
+
+    if (isReleased) {
+      return isNotification ? Promise.resolve() : Promise.reject(createReleasedError())
+    }
+    if (isConnectionFailed) {
+      // Rejects with the error of the failed handshake
+      return isNotification ? Promise.resolve() : getConnectionInfo()
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason)
+    }
 
     const messageData: RemoteCallRequest = {
       requestID,
@@ -111,61 +446,251 @@ export function consume<T = any>(endpoint: PostMessageEndpoint, config: ConsumeC
       consumerID,
       realmId
     }
+    if (resultOf) {
+      messageData.resultOf = resultOf
+    }
+    const isConnectionOperation = isNotification || operationType === 'ping'
+    if (!isConnectionOperation && priority !== undefined) {
+      messageData.priority = priority
+    }
+    if (!isConnectionOperation && metadata) {
+      messageData.metadata = metadata
+    }
+    const policy = isConnectionOperation ? undefined : resolveRetryPolicy(retryPolicy, callOptions.retry)
+    if (policy) {
+      messageData.idempotencyKey = /*#__PURE__*/ crypto.randomUUID()
+    }
+
+    // Calls made while a provided function runs inherit its deadline. Every attempt gets its own timeout
+    const deadline = isConnectionOperation ? undefined : getEarliestDeadline(callOptions.deadline, getCallContext()?.deadline)
+    const getRequestDeadline = () => getEarliestDeadline(deadline, callTimeout && !isConnectionOperation ? Date.now() + callTimeout * 1000 : undefined)
 
     const traceID = getTraceID(messageData)
-    if ((__DEV__ || __PROD_DEVTOOLS__)) {
-      devtools(traceID, "postMessage",  consumerID, 'CONSUMER', name, '' , messageData)
+    const send = (request: RemoteCallRequest) => {
+      // Sent as the time left, the provider sets the deadline on its own clock
+      const requestDeadline = getRequestDeadline()
+      if (requestDeadline !== undefined) {
+        request.timeLeft = Math.max(0, requestDeadline - Date.now())
+      }
+      if (connecting) {
+        connecting.then(() => post(request, traceID), NOOP)
+        return
+      }
+      post(request, traceID)
+    }
+
+    // Every attempt keeps the request ID, so operations pipelined on it find the result of whichever attempt arrived
+    const request = (current: RemoteCallRequest): Promise<any> => {
+      if (!policy) {
+        send(current)
+        return createPromise(current.requestID, traceID, deadline, callTimeout)
+      }
+      return retry(policy, () => {
+        if (isReleased) {
+          return Promise.reject(createReleasedError())
+        }
+        if (signal?.aborted) {
+          return Promise.reject(signal.reason)
+        }
+        send(copyRequest(current))
+        return createPromise(current.requestID, traceID, deadline, callTimeout)
+      }, signal)
+    }
+
+    // Notifications and pings are internal to the connection and bypass the interceptors
+    if (isNotification) {
+      send(messageData)
+      return Promise.resolve()
+    }
+    if (interceptors.length === 0 || isConnectionOperation) {
+      return withAbortSignal(request(messageData), requestID, signal)
+    }
+
+    let markSent: () => void = NOOP
+    if (operationType === 'call' || operationType === 'construct') {
+      interceptedCalls.set(requestID, new Promise(resolve => { markSent = resolve }))
+    }
+
+    const next = (current: RemoteCallRequest): Promise<InterceptedResponse> => {
+      markSent()
+      return request(current).then(
+        (result): InterceptedResponse => ({ resultType: 'result', result }),
+        (error): InterceptedResponse => ({ resultType: 'error', result: error })
+      )
+    }
+    const intercept = () => runInterceptors(interceptors, messageData, next)
+    const baseCall = resultOf ? interceptedCalls.get(resultOf) : undefined
+
+    const response = (baseCall ? baseCall.then(intercept) : intercept()).finally(() => {
+      markSent()
+      interceptedCalls.delete(requestID)
+    })
+    return withAbortSignal(
+      response.then(({ resultType, result }) => resultType === 'error' ? Promise.reject(result) : result),
+      requestID,
+      signal
+    )
+  }
+
+  // Rejects a pending call and cancels it on the provider when the signal aborts
+  const withAbortSignal = (promise: Promise<any>, requestID: string, signal?: AbortSignal) => {
+    if (signal) {
+      const onAbort = () => {
+        const pending = pendingPromises.get(requestID)
+        if (!pending) {return}
+        pending.reject(signal.reason)
+        return remoteCall('cancel', '', [requestID])
+      }
+      const removeAbortListener = () => signal.removeEventListener('abort', onAbort)
+
+      signal.addEventListener('abort', onAbort, { once: true })
+      promise.then(removeAbortListener, removeAbortListener)
     }
 
-    multiplexedEndpoint.postMessage(messageData)
+    return promise
+  }
+
+  // Calls and constructs return a proxy for their pending result, so further
+  // operations can be sent before the result arrives
+  // Assignments and deletes can not be awaited, their errors go to onError. Without it they are
+  // only logged in development builds, never left as unhandled rejections
+  const reportError = (result: Promise<unknown>, operation: 'set' | 'delete', propertyPath: string) => {
+    result.catch(error => {
+      const path = propertyPath.split('/').filter(Boolean).join('.')
+      if (onError) {
+        return onError(error, operation, path)
+      }
+      if (__DEV__) {
+        // eslint-disable-next-line no-console
+        console.warn(`Remote ${operation} of '${path}' failed:`, error)
+      }
+    })
+  }
 
-    return createPromise(requestID, traceID)
+  const pipelinedCall = (operationType: 'call' | 'construct', propertyPath: string, args: any[], callOptions?: CallOptions, resultOf?: string) => {
+    const requestID = /*#__PURE__*/ crypto.randomUUID()
+    const promise = makeAsyncIterable(remoteCall(operationType, propertyPath, args, callOptions, resultOf, requestID))
+    return createProxy('', callOptions, { resultOf: requestID, promise })
   }
 
-  const createProxy = (propertyPath: string): any => {
-    const cachedProxy = proxyCache.get(propertyPath)
+  const createProxy = (propertyPath: string, callOptions?: CallOptions, pipeline?: Pipeline): any => {
+    // Only proxies without per-call options or pipeline are shared
+    const isShared = !callOptions && !pipeline
+    const cachedProxy = isShared ? proxyCache.get(propertyPath) : undefined
     if (cachedProxy) {
       return cachedProxy
     }
+    const resultOf = pipeline?.resultOf
+    const assign = (property: string, value: unknown) => remoteCall('set', `${propertyPath}/${property}`, [value], callOptions, resultOf)
+
+    // The pending result of a call is not callable itself, so it is not mistaken for a function
+    // by code that inspects promises (await it to call a returned function)
+    const proxyTarget = pipeline?.promise ? {} : class {}
 
-    const remoteProxy = /*#__PURE__*/ new Proxy(class {}, {
+    // Proxies for the result of a call keep that result on the provider until they are collected.
+    // The provider only knows of calls that left the interceptors, so registrations wait for them
+    let registration: Promise<unknown> | undefined
+    const register = () => {
+      if (registration) {return}
+      registeredProxies++
+      const send = () => remoteCall('gc-register', '', resultOf ? [consumerID, resultOf] : [consumerID])
+      const baseCall = resultOf ? interceptedCalls.get(resultOf) : undefined
+      registration = baseCall ? baseCall.then(send) : send()
+    }
+    const remoteProxy = /*#__PURE__*/ new Proxy(proxyTarget, {
       get: (_target, property, _receiver) => {
+        const pipelinePromise = pipeline?.promise
+        if (pipelinePromise && (property === 'then' || property === 'catch' || property === 'finally' || property === Symbol.asyncIterator)) {
+          return Reflect.get(pipelinePromise, property).bind(pipelinePromise)
+        }
         if (property === 'then') {
           if (!propertyPath) {
             return;
           }
           // Return a thenable that performs the await operation
-          return remoteCall('await', propertyPath, []).then
+          return remoteCall('await', propertyPath, [], callOptions, resultOf).then
         }
+          if (property === Symbol.dispose) {
+            return release
+          }
+          if (property === Symbol.asyncDispose) {
+            return releaseAsync
+          }
           if (isSymbol(property)) {
             // Return undefined for symbols to prevent conversion errors
             return
           }
 
-          return createProxy(`${propertyPath}/${property}`)
+          // A failed call is reported through the operations chained on it
+          pipelinePromise?.catch(NOOP)
+          register()
+          return createProxy(`${propertyPath}/${property}`, callOptions, resultOf ? { resultOf } : undefined)
         
       },
 
       construct: (_target, argumentsList, _newTarget) => {
-        return remoteCall('construct', propertyPath, argumentsList)
+        pipeline?.promise?.catch(NOOP)
+        register()
+        return pipelinedCall('construct', propertyPath, argumentsList, callOptions, resultOf)
       },
 
       apply: (_target, _thisArg, argumentsList) => {
-        return remoteCall('call', propertyPath, argumentsList)
+        pipeline?.promise?.catch(NOOP)
+        register()
+        return pipelinedCall('call', propertyPath, argumentsList, callOptions, resultOf)
       },
 
       set: (_target, property, newValue, _receiver) => {
         if (isSymbol(property)) {return false}
 
-        remoteCall('set', `${propertyPath}/${property}`, [newValue])
+        register()
+        reportError(assign(property, newValue), 'set', `${propertyPath}/${property}`)
+        return true
+      },
+
+      deleteProperty: (_target, property) => {
+        if (isSymbol(property)) {return false}
+
+        register()
+        reportError(remoteCall('delete', propertyPath, [property], callOptions, resultOf), 'delete', `${propertyPath}/${property}`)
         return true
       }
     })
 
-    remoteCall('gc-register', '', [consumerID])
+    proxyControllers.set(remoteProxy, {
+      release,
+      withOptions: (options) => createProxy(propertyPath, mergeCallOptions(callOptions, options), pipeline),
+      request: (operationType, args) => {
+        register()
+        return remoteCall(operationType, propertyPath, args, callOptions, resultOf)
+      },
+      assign: (property, value) => {
+        register()
+        return assign(property, value)
+      },
+      getPeerInfo: getConnectionInfo
+    })
+
+    if (isShared) {
+      proxyCache.set(propertyPath, /*#__PURE__*/ remoteProxy)
+    }
+    onGarbageCollected(remoteProxy, () => {
+      if (isShared) {proxyCache.delete(propertyPath)}
+      liveProxies--
+      if (registration) {
+        registeredProxies--
+        const keepsConsumer = registeredProxies === 0 && liveProxies > 0 && !isConsumerKept
+        if (keepsConsumer) {isConsumerKept = true}
+        registration.then(() => remoteCall('gc-collect', '', [consumerID, false, resultOf, keepsConsumer]))
+      }
+      return collectIfUnused()
+    })
 
-    proxyCache.set(propertyPath, /*#__PURE__*/ remoteProxy)
-    onGarbageCollected(remoteProxy, () => { proxyCache.delete(propertyPath); return remoteCall('gc-collect', '', [consumerID]) })
+    liveProxies++
+    // A proxy for a pending result that is only awaited leaves the result to expire on the provider
+    if (!pipeline?.promise) {
+      register()
+    }
 
     return remoteProxy
   }
@@ -177,15 +702,45 @@ export function consume<T = any>(endpoint: PostMessageEndpoint, config: ConsumeC
     })
   }, PING_INTERVAL_MS)
 
-  // Cleanup on garbage collection
-  onGarbageCollected(remoteCall, () => {
+  const cleanup = () => {
     multiplexedEndpoint.removeEventListener('message', responseListener)
     pendingPromises.clear()
     proxyCache.clear()
     timeoutHandles.forEach((handle) => clearTimeout(handle))
     timeoutHandles.clear()
     clearInterval(pingInterval)
-  })
+  }
+
+  // Callbacks passed as arguments stop answering, so the peer drops them
+  const revokeAndCleanup = () => {
+    multiplexedEndpoint.revokeProvided()
+    return cleanup()
+  }
+
+  const release = (): void => {
+    if (isReleased) {return}
+
+    // Tell the provider before the consumer stops sending, dropping the registrations of all proxies
+    remoteCall('gc-collect', '', [consumerID, true])
+    isReleased = true
+
+    pendingPromises.forEach(pending => pending.reject(createReleasedError()))
+    return revokeAndCleanup()
+  }
+
+  const releaseAsync = (): Promise<void> => Promise.resolve(release())
+
+  // The provider learns about the collected proxies through gc-collect
+  const collectIfUnused = () => {
+    if (liveProxies > 0 || pendingPromises.size > 0 || isReleased) {return}
+    // Drops the registration the last call results kept, along with collections still waiting for their registration
+    remoteCall('gc-collect', '', [consumerID, true])
+    isReleased = true
+    return revokeAndCleanup()
+  }
+
+  // Cleanup on garbage collection
+  onGarbageCollected(remoteCall, revokeAndCleanup)
 
   return createProxy('')
 }
@@ -1,42 +1,330 @@
-import { isArray, isFunction, isObject, isString } from "@remobj/shared"
+import { hasOwnProperty, isArray, isFunction, isNumber, isObject, isString, NOOP } from "@remobj/shared"
 import {
     FORBIDDEN_PROPERTIES,
+    NOTIFICATION_OPERATIONS,
     type ForbiddenProperty,
     type ProvideConfig,
+    type ProviderHandle,
     type RemoteCallRequest,
     type RemoteCallResponse
 } from "./rpc-types"
-import { createArgumentWrappingEndpoint } from "./rpc-wrapper"
+import { createArgumentWrappingEndpoint, type ResultScope, type ValueProvider } from "./rpc-wrapper"
+import { isAccessAllowed, type AccessPolicy } from "./access-policy"
+import { createAuthenticationFailedError, createChallenge, createNotAuthenticatedError, verifyCredentials } from "./authentication"
+import { runWithCallContext } from "./call-context"
+import { createDeadlineError, getEarliestDeadline } from "./deadline"
+import { runInterceptors, type InterceptedResponse } from "./interceptors"
+import { createRateLimiter, type RateLimiter } from "./rate-limit"
+import { DEFAULT_REQUEST_LIMITS } from "./request-limits"
+import { createPeerInfo, createProtocolMismatchError, isCompatiblePeer, switchCodec } from "./handshake"
+import { getCodecNames } from "./codec"
+import { runValidator, type CallSchema, type Validator } from "./validation"
 import { devtools, getTraceID } from "./devtools"
 import { createMultiplexedEndpoint } from "./multiplex"
 import type { PostMessageEndpoint } from "./types"
 
 // Constants for connection management
 const PROVIDER_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
+const IDEMPOTENCY_RETENTION_MS = 60 * 1000 // 60 seconds
+const ANSWER_RETENTION_MS = 60 * 1000 // 60 seconds
+const MAX_ANSWERS = 10_000
 
-export function provide(data: any, endpoint: PostMessageEndpoint, config: ProvideConfig = {}): void {
-    const { allowWrite = false, name = '' } = config
+// The result of a call or construct, kept so consumers can pipeline operations on it
+// for as long as they hold proxies for it, or until the retention time has passed since it settled
+interface Answer {
+    consumerID: string
+    result: Promise<unknown>
+    settle: (result: Promise<unknown>) => void
+    isSettled: boolean
+    references: number
+    expiresAt: number
+    // Path of the call that produced the result, see AccessRequest.resolvedChain
+    resolvedChain: string[]
+}
+
+const isConnectionOperation = (operationType: RemoteCallRequest['operationType']) =>
+    NOTIFICATION_OPERATIONS.includes(operationType) || operationType === 'ping' || operationType === 'hello' || operationType === 'authenticate'
+
+// Answered before a consumer is authenticated
+const HANDSHAKE_OPERATIONS: readonly RemoteCallRequest['operationType'][] = ['ping', 'hello', 'authenticate']
+
+// Only string headers are passed on to the call context
+const getMetadata = ({ metadata }: RemoteCallRequest): Record<string, string> =>
+    isObject(metadata) ? Object.fromEntries(Object.entries(metadata).filter(([, value]) => isString(value))) : {}
+
+const createRevokedError = (): Error => new Error(__DEV__ ? 'PROVIDER REVOKED - The provided object is no longer available.' : `E013`)
+
+// Left on the endpoint of a revoked provider, it remembers nothing but the revocation
+const createRevokedListener = (endpoint: PostMessageEndpoint, providerID: string) => (event: MessageEvent) => {
+    const request: RemoteCallRequest = event.data
+    if (!isObject(request) || !isString(request.operationType) || NOTIFICATION_OPERATIONS.includes(request.operationType)) { return }
+    endpoint.postMessage({ type: 'response', requestID: request.requestID, resultType: 'error', result: createRevokedError(), providerID, consumerID: request.consumerID })
+}
+
+const createUnknownResultError = (): Error => new Error(__DEV__ ? 'UNKNOWN PIPELINE RESULT - The result referenced by a pipelined call is no longer available.' : `E016`)
+
+// Settings the provider of a wrapped value takes over from the provider that handed the value out
+interface InheritedSettings {
+    scope: ResultScope
+    policy: AccessPolicy | undefined
+    schemas: Record<string, CallSchema>
+    schemaTargets: WeakMap<object, CallSchema>
+    rateLimiter: RateLimiter | undefined
+}
+
+// Schemas also apply to their functions when these are reached through the result of a call or a wrapped value
+const resolveSchemaTargets = (data: unknown, schemas: Record<string, CallSchema>): WeakMap<object, CallSchema> => {
+    const targets = new WeakMap<object, CallSchema>()
+    Object.entries(schemas).forEach(([path, schema]) => {
+        let target: any = data
+        for (const property of path.split('.').filter(Boolean)) {
+            if (FORBIDDEN_PROPERTIES.includes(property as ForbiddenProperty) || !isObject(target)) { return }
+            try {
+                target = target[property]
+            } catch {
+                return
+            }
+        }
+        if (isFunction(target)) {
+            targets.set(target, schema)
+        }
+    })
+    return targets
+}
+
+const createRateLimitError = (request: RemoteCallRequest): Error => new Error(__DEV__ ? `RATE LIMITED - Too many requests, '${request.operationType}' on '${request.propertyPath}' was rejected.` : `E021`)
+
+/**
+ * Exposes an object to remote consumers through an endpoint
+ * @param data - The object to provide
+ * @param endpoint - The PostMessage endpoint to listen on
+ * @param config - Configuration options for the provider
+ * @returns A handle to revoke the provider and observe its consumers
+ */
+export function provide(data: any, endpoint: PostMessageEndpoint, config: ProvideConfig = {}): ProviderHandle {
+    return createProvider(data, endpoint, config)
+}
+
+// Providers of wrapped values check requests as part of the provider that handed the value out, with paths continuing where it was found
+function createProvider(data: any, endpoint: PostMessageEndpoint, config: ProvideConfig, inherited?: InheritedSettings): ProviderHandle {
+    const { allowWrite = false, name = '', interceptors = [], rateLimit, limits = {}, authenticate, budgets = {} } = config
+    const scope = inherited?.scope
+    const policy = inherited ? inherited.policy : config.policy
+    const schemas = inherited ? inherited.schemas : config.schemas ?? {}
+    const schemaTargets = inherited ? inherited.schemaTargets : resolveSchemaTargets(data, schemas)
+    // Providers of wrapped values take their tokens from the buckets of the root provider
+    const rateLimiter = inherited ? inherited.rateLimiter : rateLimit && createRateLimiter(rateLimit)
     const providerID: string = /*#__PURE__*/ crypto.randomUUID()
-    const multiplexedEndpoint = /*#__PURE__*/ createArgumentWrappingEndpoint(createMultiplexedEndpoint(endpoint), `${name} -> ArgumentWrapper`)
-    const registered = new Set<string>()
+    const requestLimits = {
+        maxArgCount: limits.maxArgCount ?? DEFAULT_REQUEST_LIMITS.maxArgCount,
+        maxPathDepth: limits.maxPathDepth ?? DEFAULT_REQUEST_LIMITS.maxPathDepth,
+        maxArgSize: limits.maxArgSize ?? DEFAULT_REQUEST_LIMITS.maxArgSize,
+        maxPropertyLength: limits.maxPropertyLength ?? DEFAULT_REQUEST_LIMITS.maxPropertyLength
+    }
+    const provideWrapped: ValueProvider = (value, channel, channelId, resultScope) => createProvider(value, channel, { name: channelId, limits: requestLimits }, {
+        // Values wrapped outside of a response are treated like results of calls handed to nobody
+        scope: resultScope ?? { consumerID: '', realmId: '', identity: undefined, propertyChain: [], pipelined: true, resolvedChain: [] },
+        policy,
+        schemas,
+        schemaTargets,
+        rateLimiter
+    })
+    const multiplexedEndpoint = /*#__PURE__*/ createArgumentWrappingEndpoint(createMultiplexedEndpoint(endpoint), `${name} -> ArgumentWrapper`, requestLimits, provideWrapped)
+    // Registered proxies by consumer ID
+    const registered = new Map<string, number>()
+    // Calls by request ID until their handler settled, which may be after their response was sent
+    const runningCalls = new Map<string, { consumerID: string, controller: AbortController, running: Promise<unknown> }>()
+    const answers = new Map<string, Answer>()
+    // Responses by consumer and idempotency key, so a retried request is not handled twice
+    const responseCache = new Map<string, Promise<InterceptedResponse>>()
+    const idleCallbacks = new Set<() => void>()
+    // Identities by consumer ID, and the challenges consumers have yet to answer
+    const identities = new Map<string, unknown>()
+    const challenges = new Map<string, string>()
+    let isListening = true
+    let isRevoked = false
+
+    const detach = () => {
+        if (!isListening) { return }
+        isListening = false
+        clearTimeout(timeoutHandle)
+        multiplexedEndpoint.removeEventListener('message', messageListener)
+        idleCallbacks.forEach(callback => callback())
+    }
 
     let timeoutHandle: any;
     const setProviderTimeout = () => {
         if (timeoutHandle) { clearTimeout(timeoutHandle) }
-        timeoutHandle = setTimeout(() => multiplexedEndpoint.removeEventListener('message', messageListener), PROVIDER_TIMEOUT_MS)
+        timeoutHandle = setTimeout(detach, PROVIDER_TIMEOUT_MS)
         return timeoutHandle
     }
 
+    // Unreferenced answers are dropped once expired, the oldest ones go first when there are too many
+    let nextPrune = 0
+    const pruneAnswers = () => {
+        const now = Date.now()
+        if (answers.size < MAX_ANSWERS && now < nextPrune) { return }
+        nextPrune = now + ANSWER_RETENTION_MS
+        answers.forEach((answer, requestID) => answer.references <= 0 && answer.expiresAt <= now && answers.delete(requestID))
+        const excess = [...answers].slice(0, Math.max(0, answers.size - MAX_ANSWERS + 1))
+        excess.forEach(([requestID, answer]) => {
+            answers.delete(requestID)
+            answer.settle(Promise.reject(createUnknownResultError()))
+        })
+    }
+
+    // Answers are reserved when a call arrives, so operations pipelined on it find it while it is still intercepted or waiting for its own base
+    const reserveAnswer = (requestID: string, consumerID: string, resolvedChain: string[]) => {
+        if (answers.has(requestID)) { return }
+        pruneAnswers()
+        let settle: (result: Promise<unknown>) => void = NOOP
+        const result = new Promise<unknown>(resolve => { settle = resolve })
+        result.catch(NOOP)
+        const answer: Answer = {
+            consumerID,
+            result,
+            settle: (value) => {
+                if (answer.isSettled) { return }
+                answer.isSettled = true
+                settle(value)
+            },
+            isSettled: false,
+            references: 0,
+            expiresAt: Number.POSITIVE_INFINITY,
+            resolvedChain
+        }
+        const expire = () => { answer.expiresAt = Date.now() + ANSWER_RETENTION_MS }
+        result.then(expire, expire)
+        answers.set(requestID, answer)
+    }
+
+    const getAbsoluteChain = (propertyChain: string[]) => scope ? [...scope.propertyChain, ...propertyChain] : propertyChain
+    const isPipelined = (request: RemoteCallRequest) => request.resultOf !== undefined || scope?.pipelined === true
+    const getIdentity = (consumerID: string) => scope ? scope.identity : identities.get(consumerID)
+    // Pipelined requests continue the path of the call that produced their result
+    const getResolvedChain = (request: RemoteCallRequest, propertyChain: string[]) => {
+        if (isString(request.resultOf)) {
+            return [...answers.get(request.resultOf)?.resolvedChain ?? [], ...propertyChain]
+        }
+        return scope ? [...scope.resolvedChain, ...propertyChain] : propertyChain
+    }
+
+    // Values in the result of a response are provided within the scope of the request
+    const getResultScope = (request: RemoteCallRequest): ResultScope => {
+        const isAwait = request.operationType === 'await' && isString(request.propertyPath)
+        const propertyChain = isString(request.propertyPath) ? request.propertyPath.split('/').filter(Boolean) : []
+        return {
+            consumerID: scope ? scope.consumerID : request.consumerID,
+            realmId: scope ? scope.realmId : request.realmId,
+            identity: getIdentity(request.consumerID),
+            propertyChain: isAwait ? getAbsoluteChain(propertyChain) : [],
+            pipelined: !isAwait || isPipelined(request),
+            resolvedChain: getResolvedChain(request, propertyChain)
+        }
+    }
+
+    const forgetAnswers = (consumerID: string) => answers.forEach((answer, requestID) => answer.consumerID === consumerID && answers.delete(requestID))
+
+    // Caches the response to a request until the retention time has passed. Errors are
+    // only passed to retries already waiting, later retries handle the request again.
+    // A call that outlived its deadline is still running, retries get its own response instead of running it again
+    const cacheResponse = (key: string, requestID: string) => {
+        let resolve: (response: InterceptedResponse | Promise<InterceptedResponse>) => void = NOOP
+        const cached = new Promise<InterceptedResponse>(r => { resolve = r })
+        responseCache.set(key, cached)
+        const forget = () => responseCache.get(key) === cached && responseCache.delete(key)
+        return ({ resultType, result }: RemoteCallResponse) => {
+            const running = resultType === 'error' ? runningCalls.get(requestID)?.running : undefined
+            resolve(running
+                ? running.then((value): InterceptedResponse => ({ resultType: 'result', result: value }), (error): InterceptedResponse => ({ resultType: 'error', result: error }))
+                : { resultType, result })
+            return cached.then(response => response.resultType === 'error' ? forget() : setTimeout(forget, IDEMPOTENCY_RETENTION_MS))
+        }
+    }
+
     const messageListener = (event: MessageEvent) => {
         setProviderTimeout()
-        const messageData: RemoteCallRequest = event.data
-
+        const request: RemoteCallRequest = event.data
 
         if ((__DEV__ || __PROD_DEVTOOLS__)) {
-            const traceID = getTraceID(messageData)
-            devtools(traceID, "event", providerID, "PROVIDER", name, '', messageData)
+            const traceID = getTraceID(request)
+            devtools(traceID, "event", providerID, "PROVIDER", name, '', request)
+        }
+
+        const cacheKey = request.idempotencyKey && !isConnectionOperation(request.operationType) ? `${request.consumerID}/${request.idempotencyKey}` : undefined
+        const cachedResponse = cacheKey ? responseCache.get(cacheKey) : undefined
+        const recordResponse = cacheKey && !cachedResponse ? cacheResponse(cacheKey, request.requestID) : NOOP
+
+        const postResponse = (response: RemoteCallResponse) => {
+            // Recorded before sending, as the result is wrapped in place
+            recordResponse(response)
+
+            if ((__DEV__ || __PROD_DEVTOOLS__)) {
+                const traceID = getTraceID(request, response)
+                devtools(traceID, "postMessage", providerID, "PROVIDER", name, '', response)
+            }
+
+            // A call answered without being invoked (e.g. by an interceptor) is pipelined on its response
+            const answer = answers.get(request.requestID)
+            if (answer && !answer.isSettled) {
+                answer.settle(response.resultType === 'error' ? Promise.reject(response.result) : Promise.resolve(response.result))
+            }
+            multiplexedEndpoint.setResultScope(response, getResultScope(request))
+            multiplexedEndpoint.postMessage(response)
+        }
+
+        // Requests over the limits arrive still wrapped and are rejected before anything else
+        const limitError = multiplexedEndpoint.getLimitError(request)
+        if (limitError) {
+            return NOTIFICATION_OPERATIONS.includes(request.operationType) || postResponse({ type: 'response', requestID: request.requestID, resultType: 'error', result: limitError, providerID, consumerID: request.consumerID })
+        }
+
+        // Consumers can not do anything but connect before they are authenticated, their notifications are dropped
+        if (authenticate && !HANDSHAKE_OPERATIONS.includes(request.operationType) && !identities.has(request.consumerID)) {
+            return NOTIFICATION_OPERATIONS.includes(request.operationType) || postResponse({ type: 'response', requestID: request.requestID, resultType: 'error', result: createNotAuthenticatedError(), providerID, consumerID: request.consumerID })
+        }
+
+        // Limited before any further work is done for the request
+        if (rateLimiter && !isConnectionOperation(request.operationType)) {
+            const path = isPipelined(request) ? undefined : getAbsoluteChain(request.propertyPath.split('/').filter(Boolean)).join('.')
+            if (!rateLimiter.take(scope ?? request, path)) {
+                return postResponse({ type: 'response', requestID: request.requestID, resultType: 'error', result: createRateLimitError(request), providerID, consumerID: request.consumerID })
+            }
+        }
+
+        // The deadline is set on the own clock from the time the consumer still waits, so the clocks of both sides do not have to agree
+        if (isNumber(request.timeLeft)) {
+            request.deadline = Date.now() + request.timeLeft
+        } else {
+            delete request.deadline
+        }
+
+        // Nobody waits for the response anymore
+        if (isNumber(request.timeLeft) && request.timeLeft <= 0 && !isConnectionOperation(request.operationType)) {
+            return postResponse({ type: 'response', requestID: request.requestID, resultType: 'error', result: createDeadlineError(), providerID, consumerID: request.consumerID })
         }
 
+        // A retry gets the response of the first attempt, even while that is still running
+        if (cachedResponse) {
+            return cachedResponse.then(({ resultType, result }) => postResponse({ type: 'response', requestID: request.requestID, resultType, result, providerID, consumerID: request.consumerID }))
+        }
+
+        if (request.operationType === 'call' || request.operationType === 'construct') {
+            reserveAnswer(request.requestID, request.consumerID, getResolvedChain(request, isString(request.propertyPath) ? request.propertyPath.split('/').filter(Boolean) : []))
+        }
+
+        // Notifications, pings, handshakes and authentication are internal to the connection and bypass the interceptors
+        if (interceptors.length === 0 || isConnectionOperation(request.operationType)) {
+            return handleRequest(request, postResponse)
+        }
+
+        return runInterceptors(interceptors, request, current => new Promise(resolve => handleRequest(current, resolve)))
+            .catch((error): InterceptedResponse => ({ resultType: 'error', result: error }))
+            .then(({ resultType, result }) => postResponse({ type: 'response', requestID: request.requestID, resultType, result, providerID, consumerID: request.consumerID }))
+    }
+
+    // Handles a single request and passes the response to respond, notifications are never answered
+    const handleRequest = (messageData: RemoteCallRequest, respond: (response: RemoteCallResponse) => void) => {
         const sendResponse = async (data: any, err?: any) => {
             let result: any
             let resultType: 'error' | 'result' = err ? 'error' : 'result'
@@ -52,26 +340,23 @@ export function provide(data: any, endpoint: PostMessageEndpoint, config: Provid
                 }
             }
 
-            const returnData: RemoteCallResponse = {
+            respond({
                 type: 'response',
                 requestID: messageData.requestID,
                 resultType,
                 result,
                 providerID,
                 consumerID: messageData.consumerID
-            }
-
-
-            if ((__DEV__ || __PROD_DEVTOOLS__)) {
-                const traceID = getTraceID(messageData, returnData)
-                devtools(traceID, "postMessage", providerID, "PROVIDER", name, '', returnData)
-            }
-
-            multiplexedEndpoint.postMessage(returnData)
+            })
         }
 
         const sendError = (err: any) => sendResponse(undefined, err)
 
+        const op = messageData.operationType;
+        if (isRevoked && !NOTIFICATION_OPERATIONS.includes(op)) {
+            return sendError(createRevokedError())
+        }
+
         // Validate input
         if (!isString(messageData.propertyPath) || !isString(messageData.operationType) || !isArray(messageData.args)) {
             return sendError(new Error(__DEV__ ? `ACCESS DENIED - Data operationType or args.` : `E003`))
@@ -80,71 +365,270 @@ export function provide(data: any, endpoint: PostMessageEndpoint, config: Provid
         // Parse property chain and check for forbidden properties
         const propertyChain = messageData.propertyPath.split('/').filter(Boolean)
 
-        // Navigate to target property
-        let target = data
-        let navigationLength = propertyChain.length;
+        if (policy && !isConnectionOperation(op)) {
+            const inspectedChain = op === 'has' || op === 'describe' || op === 'delete' ? [...propertyChain, String(messageData.args[0])] : propertyChain
+            const accessedChain = getAbsoluteChain(inspectedChain)
+            // Requests on wrapped values are checked as requests of the consumer the value was handed to
+            const request = {
+                consumerID: scope ? scope.consumerID : messageData.consumerID,
+                realmId: scope ? scope.realmId : messageData.realmId,
+                identity: getIdentity(messageData.consumerID),
+                operationType: op,
+                propertyChain: accessedChain,
+                pipelined: isPipelined(messageData),
+                resolvedChain: getResolvedChain(messageData, inspectedChain)
+            }
+            if (!isAccessAllowed(policy, request)) {
+                return sendError(new Error(__DEV__ ? `ACCESS DENIED - The access policy rejected '${op}' on '${accessedChain.join('.')}'.` : `E019`))
+            }
+        }
+
+        const schemaPath = getAbsoluteChain(propertyChain).join('.')
+        // Pipelined calls start from a result instead of the provided object, only the schemas of the functions they reach apply to them
+        const pathSchema = !isPipelined(messageData) && hasOwnProperty(schemas, schemaPath) ? schemas[schemaPath] : undefined
 
-        // Validate set operation
-        if (messageData.operationType === 'set') {
-            if (propertyChain.length === 0) {
-                return sendError(new Error(__DEV__ ? 'ACCESS DENIED - Root ist not settable.' : `E004`))
+        const check = async (validator: Validator | undefined, value: any, isResult: boolean): Promise<any> => {
+            if (!validator) { return value }
+            const checked = await runValidator(validator, value)
+            if ('issues' in checked) {
+                const issues = checked.issues.join(', ')
+                throw isResult
+                    ? new Error(__DEV__ ? `VALIDATION FAILED - Result of '${schemaPath}' does not match the schema. ${issues}` : `E018`)
+                    : new Error(__DEV__ ? `VALIDATION FAILED - Arguments of '${schemaPath}' do not match the schema. ${issues}` : `E017`)
             }
-            navigationLength--;
+            return checked.value
         }
 
-        for (let i = 0; i < navigationLength; i++) {
-            if (FORBIDDEN_PROPERTIES.includes(propertyChain[i] as ForbiddenProperty) || !isObject(target)) {
-                return sendError(new Error(__DEV__ ? `ACCESS DENIED - Access to property '${propertyChain[i]}' is forbidden` : `E005`))
+        // Runs a call or construct operation with a call context that can be cancelled by the consumer
+        // and is aborted once the deadline of the consumer or the budget of its path has passed
+        const invoke = (operation: (args: any[]) => unknown, target: object) => {
+            const schema = pathSchema ?? schemaTargets.get(target)
+            const { requestID, consumerID } = messageData
+            const controller = new AbortController()
+
+            const budget = messageData.resultOf === undefined && hasOwnProperty(budgets, schemaPath) ? budgets[schemaPath] : budgets['*']
+            const deadline = getEarliestDeadline(messageData.deadline, isNumber(budget) ? Date.now() + budget : undefined)
+            const context = {
+                consumerID,
+                realmId: messageData.realmId,
+                signal: controller.signal,
+                identity: getIdentity(consumerID),
+                deadline,
+                priority: isNumber(messageData.priority) ? messageData.priority : undefined,
+                metadata: getMetadata(messageData)
+            }
+            const run = (args: any[]) => runWithCallContext(context, () => operation(args))
+            const running = schema
+                ? check(schema.args, messageData.args, false).then(run).then(value => check(schema.result, value, true))
+                : new Promise(resolve => resolve(run(messageData.args)))
+            const call = { consumerID, controller, running }
+            runningCalls.set(requestID, call)
+            const forgetCall = () => runningCalls.get(requestID) === call && runningCalls.delete(requestID)
+            running.then(forgetCall, forgetCall)
+
+            // The response does not wait for handlers that ignore the signal
+            let expiry: ReturnType<typeof setTimeout> | undefined
+            const result = deadline === undefined ? running : Promise.race([running, new Promise<never>((_resolve, reject) => {
+                expiry = setTimeout(() => {
+                    const error = createDeadlineError()
+                    controller.abort(error)
+                    reject(error)
+                }, deadline - Date.now())
+            })])
+
+            // Keep the result around so the consumer can pipeline operations on it
+            const answer = answers.get(requestID)
+            if (answer?.consumerID === consumerID && !answer.isSettled) {
+                answer.settle(result)
             }
-            target = target[propertyChain[i]]
-        }
-
-        // Execute operation
-        const lastProperty = propertyChain[propertyChain.length - 1]
-        try {
-            const op = messageData.operationType;
-            if (op === 'gc-register') {
-                return registered.add(messageData.args[0])
-            } if (op === 'gc-collect') {
-                registered.delete(messageData.args[0])
-                return registered.size === 0 && multiplexedEndpoint.removeEventListener('message', messageListener)
-            } if (op === 'ping') {
-                // Ping received, connection is alive
-                return sendResponse(true)
-            } if (op === 'await') {
-                return sendResponse(target)
-            } if (op === 'call') {
-                if (isFunction(target)) {
-                    return sendResponse(target(...messageData.args))
+
+            return sendResponse(result).finally(() => clearTimeout(expiry))
+        }
+
+        // Navigates from the root (the provided object or a pipelined result) and executes the operation
+        const execute = (root: any) => {
+            // Navigate to target property
+            let target = root
+            let navigationLength = propertyChain.length;
+
+            // Validate set operation
+            if (messageData.operationType === 'set') {
+                if (propertyChain.length === 0) {
+                    return sendError(new Error(__DEV__ ? 'ACCESS DENIED - Root ist not settable.' : `E004`))
                 }
-                return sendError(new Error(__DEV__ ? `REMOTE IS NOT A FUNCTION - You tried to call a function this is not a function.` : `E007`))
-            } if (op === 'construct') {
-                // eslint-disable-next-line new-cap
-                return sendResponse(new target(...messageData.args))
-            } if (op === 'set') {
-                if (allowWrite) {
-                    if (FORBIDDEN_PROPERTIES.includes(lastProperty as ForbiddenProperty)) {
-                        return sendError(new Error(__DEV__ ? `ACCESS DENIED - Access to property '${lastProperty}' is forbidden for security reasons` : `E008`))
+                navigationLength--;
+            }
+
+            for (let i = 0; i < navigationLength; i++) {
+                if (FORBIDDEN_PROPERTIES.includes(propertyChain[i] as ForbiddenProperty) || !isObject(target)) {
+                    return sendError(new Error(__DEV__ ? `ACCESS DENIED - Access to property '${propertyChain[i]}' is forbidden` : `E005`))
+                }
+                target = target[propertyChain[i]]
+            }
+
+            // Execute operation
+            const lastProperty = propertyChain[propertyChain.length - 1]
+            try {
+                if (op === 'gc-register') {
+                    // Proxies pipelining on the result of a call keep it as well as their consumer, as long as it is still known
+                    const [consumerID, resultOf] = messageData.args
+                    const answer = isString(resultOf) ? answers.get(resultOf) : undefined
+                    if (answer?.consumerID === messageData.consumerID) {
+                        answer.references++
+                    }
+                    return registered.set(consumerID, (registered.get(consumerID) ?? 0) + 1)
+                } if (op === 'gc-collect') {
+                    // A single collected proxy leaves the other proxies of its consumer registered, a released consumer drops all.
+                    // The last registered proxy of a consumer still holding call results keeps the consumer registered
+                    const [consumerID, isReleased, resultOf, keepsConsumer] = messageData.args
+                    const answer = isString(resultOf) ? answers.get(resultOf) : undefined
+                    if (answer?.consumerID === messageData.consumerID && --answer.references <= 0) {
+                        // A running call still settles the answer its pipelined operations wait for
+                        const forgetAnswer = () => answer.references <= 0 && answers.get(resultOf) === answer && answers.delete(resultOf)
+                        answer.result.then(forgetAnswer, forgetAnswer)
+                    }
+                    const remaining = isReleased === true ? 0 : (registered.get(consumerID) ?? 0) - (keepsConsumer === true ? 0 : 1)
+                    if (remaining > 0) {
+                        return registered.set(consumerID, remaining)
+                    }
+                    registered.delete(consumerID)
+                    forgetAnswers(consumerID)
+                    identities.delete(consumerID)
+                    challenges.delete(consumerID)
+                    rateLimiter?.forgetConsumer(consumerID)
+                    return registered.size === 0 && detach()
+                } if (op === 'cancel') {
+                    const running = runningCalls.get(messageData.args[0])
+                    if (running?.consumerID === messageData.consumerID) {
+                        running.controller.abort(new Error(__DEV__ ? 'CALL CANCELLED - The consumer cancelled the call.' : `E015`))
+                    }
+                    return
+                } if (op === 'ping') {
+                    // Ping received, connection is alive
+                    return sendResponse(true)
+                } if (op === 'hello') {
+                    const [peer] = messageData.args
+                    if (!isCompatiblePeer(peer)) {
+                        return sendError(createProtocolMismatchError(peer))
+                    }
+                    // Repeated hellos get the same challenge, as the consumer answers whichever reply arrives first
+                    const { consumerID } = messageData
+                    const challenge = authenticate ? challenges.get(consumerID) ?? createChallenge() : undefined
+                    if (challenge !== undefined) {
+                        challenges.set(consumerID, challenge)
+                    }
+                    // The answer is still sent with the old codec, as the consumer switches once it arrives
+                    return sendResponse(createPeerInfo(getCodecNames(endpoint), challenge)).then(() => switchCodec(endpoint, peer.codecs, getCodecNames(endpoint)))
+                } if (op === 'authenticate') {
+                    // A challenge is only good for one attempt, failed consumers have to say hello again
+                    const { consumerID, realmId } = messageData
+                    const challenge = challenges.get(consumerID)
+                    challenges.delete(consumerID)
+                    if (!authenticate) {
+                        return sendError(new Error(__DEV__ ? `Unknown operation type: ${op}` : `E011`))
+                    } if (challenge === undefined) {
+                        return sendError(createAuthenticationFailedError())
+                    }
+                    const identity = verifyCredentials(authenticate, { credentials: messageData.args[0], challenge, consumerID, realmId })
+                    return sendResponse(identity.then(value => { identities.set(consumerID, value); return true }))
+                } if (op === 'await') {
+                    return sendResponse(target)
+                } if (op === 'call') {
+                    if (isFunction(target)) {
+                        return invoke(args => target(...args), target)
+                    }
+                    return sendError(new Error(__DEV__ ? `REMOTE IS NOT A FUNCTION - You tried to call a function this is not a function.` : `E007`))
+                } if (op === 'construct') {
+                    // eslint-disable-next-line new-cap
+                    return invoke(args => new target(...args), target)
+                } if (op === 'keys') {
+                    return sendResponse(Object.keys(target).filter(key => !FORBIDDEN_PROPERTIES.includes(key as ForbiddenProperty)))
+                } if (op === 'has' || op === 'describe' || op === 'delete') {
+                    const [key] = messageData.args
+                    if (!isString(key)) {
+                        return sendError(new Error(__DEV__ ? `ACCESS DENIED - Data operationType or args.` : `E003`))
+                    }
+                    const isForbidden = FORBIDDEN_PROPERTIES.includes(key as ForbiddenProperty)
+
+                    if (op === 'has') {
+                        return sendResponse(!isForbidden && Reflect.has(target, key))
+                    } if (op === 'describe') {
+                        const descriptor = isForbidden ? undefined : Reflect.getOwnPropertyDescriptor(target, key)
+                        return sendResponse(descriptor && {
+                            configurable: !!descriptor.configurable,
+                            enumerable: !!descriptor.enumerable,
+                            writable: !!descriptor.writable,
+                            accessor: !('value' in descriptor)
+                        })
                     }
 
-                    if (Object.getOwnPropertyDescriptor(target, lastProperty)?.writable) {
-                        const [value] = messageData.args
-                        target[lastProperty] = value
+                    if (!allowWrite) {
+                        return sendError(new Error(__DEV__ ? 'ACCESS DENIED - WRITE NOT ALLOWED' : `E010`))
+                    } if (isForbidden) {
+                        return sendError(new Error(__DEV__ ? `ACCESS DENIED - Access to property '${key}' is forbidden for security reasons` : `E008`))
+                    } if (Reflect.deleteProperty(target, key)) {
                         return sendResponse(true)
                     }
                     return sendError(new Error(__DEV__ ? 'ACCESS DENIED - WRITE TO READONLY NOT ALLOWED' : `E009`))
+                } if (op === 'set') {
+                    if (allowWrite) {
+                        if (FORBIDDEN_PROPERTIES.includes(lastProperty as ForbiddenProperty)) {
+                            return sendError(new Error(__DEV__ ? `ACCESS DENIED - Access to property '${lastProperty}' is forbidden for security reasons` : `E008`))
+                        }
+
+                        if (Object.getOwnPropertyDescriptor(target, lastProperty)?.writable) {
+                            const [value] = messageData.args
+                            target[lastProperty] = value
+                            return sendResponse(true)
+                        }
+                        return sendError(new Error(__DEV__ ? 'ACCESS DENIED - WRITE TO READONLY NOT ALLOWED' : `E009`))
 
+                    }
+                    return sendError(new Error(__DEV__ ? 'ACCESS DENIED - WRITE NOT ALLOWED' : `E010`))
                 }
-                return sendError(new Error(__DEV__ ? 'ACCESS DENIED - WRITE NOT ALLOWED' : `E010`))
+            } catch (error) {
+                return sendError(error)
             }
-        } catch (error) {
-            return sendError(error)
+            return sendError(new Error(__DEV__ ? `Unknown operation type: ${messageData.operationType}` : `E011`))
         }
-        return sendError(new Error(__DEV__ ? `Unknown operation type: ${messageData.operationType}` : `E011`))
+
+        if (messageData.resultOf === undefined) {
+            return execute(data)
+        }
+
+        const answer = isString(messageData.resultOf) ? answers.get(messageData.resultOf) : undefined
+        if (!answer || answer.consumerID !== messageData.consumerID) {
+            return sendError(createUnknownResultError())
+        }
+        return answer.result.then(execute, sendError)
     }
 
     multiplexedEndpoint.addEventListener('message', messageListener)
 
     // Note: Cleanup is handled by the timeout mechanism and gc-collect messages
     // to ensure proper lifecycle management of the message listener
+    return {
+        revoke: () => {
+            if (isRevoked) { return }
+            isRevoked = true
+            // Consumers still sending learn about the revocation, however long after it they send
+            detach()
+            multiplexedEndpoint.addEventListener('message', createRevokedListener(multiplexedEndpoint, providerID))
+            multiplexedEndpoint.revokeProvided()
+            answers.forEach(answer => answer.isSettled || answer.settle(Promise.reject(createUnknownResultError())))
+            answers.clear()
+            responseCache.clear()
+            identities.clear()
+            challenges.clear()
+            // Drop the reference so the provided object can be collected
+            data = undefined
+        },
+        get isActive() { return isListening && !isRevoked },
+        get consumerCount() { return registered.size },
+        getRateLimitStats: () => rateLimiter?.getStats() ?? { allowed: 0, rejected: 0, consumers: {}, paths: {} },
+        onIdle: (callback) => {
+            idleCallbacks.add(callback)
+            return () => { idleCallbacks.delete(callback) }
+        }
+    }
 }
\ No newline at end of file
@@ -1,3 +1,12 @@
+import type { AccessPolicy } from "./access-policy"
+import type { Authenticator, CredentialsProvider } from "./authentication"
+import type { SerializedError } from "./error-codec"
+import type { Interceptor } from "./interceptors"
+import type { RateLimitConfig, RateLimitStats } from "./rate-limit"
+import type { RequestLimits } from "./request-limits"
+import type { RetryPolicy } from "./retry"
+import type { CallSchema } from "./validation"
+
 /**
  * Properties that are forbidden from remote access for security reasons
  */
@@ -15,12 +24,28 @@ export interface Plugins {
     transferType: number,
     returnType: Date
   }
+  'AsyncIterable': {
+    typeOriginal: AsyncIterableIterator<unknown>,
+    transferType: WrappedArgument,
+    returnType: AsyncIterableIterator<unknown>
+  }
+  'Error': {
+    typeOriginal: Error,
+    transferType: SerializedError,
+    returnType: Error
+  }
 }
 
+/**
+ * Operations that can be chained on the pending result of a remote call
+ */
+export type Pipelined<T> = [Remote<Awaited<T>>] extends [never] ? unknown : Omit<Remote<Awaited<T>>, 'then' | 'catch' | 'finally'>
+
 /**
  * Transforms a type T into its remote proxy equivalent
  * - Primitive types become Promises
- * - Functions return Promises
+ * - Functions return Promises that can be used as remote proxies before they resolve
+ * - Functions returning async iterables return Promises that can be iterated with `for await`
  * - Objects have all their properties transformed recursively
  * - Constructors return Remote instances
  * 
@@ -30,19 +55,28 @@ export interface Plugins {
 export type Remote<T, B = true> =
     T extends symbol ? Promise<null> :
     T extends number | string | boolean | bigint | null | undefined ? Promise<T> :
-    T extends { new(...args: infer ARGS): infer RETURN } ? { new(...args: ARGS): Promise<Remote<RETURN>> } :
+    T extends { new(...args: infer ARGS): infer RETURN } ? { new(...args: ARGS): Promise<Remote<RETURN>> & Pipelined<RETURN> } :
     T extends (...args: any[]) => any ? (...args: Parameters<T>) => (
-        ReturnType<T> extends Record<string, unknown> ? Promise<ReturnType<T>> :
-        T extends object ? Promise<Remote<ReturnType<T>>> :
+        Awaited<ReturnType<T>> extends AsyncIterableIterator<infer U> ? Promise<AsyncIterableIterator<U>> & AsyncIterable<U> :
+        ReturnType<T> extends Record<string, unknown> ? Promise<ReturnType<T>> & Pipelined<ReturnType<T>> :
+        T extends object ? Promise<Remote<ReturnType<T>>> & Pipelined<ReturnType<T>> :
         Promise<T>
     ) :
     T extends Record<string, unknown> ? { [K in keyof Omit<T, ForbiddenProperty | symbol>]: Remote<T[K]> } & Promise<T> :
-    { [K in keyof Plugins]: T extends Plugins[K]['typeOriginal'] ? Plugins[K]['returnType'] : never } extends Record<string, infer RET> ? RET :
-    T extends object ? (
-        B extends true ? { [K in keyof Omit<T, ForbiddenProperty | symbol>]: Remote<T[K]> } : Remote<T, false>
+    PluginReturnType<T> extends infer RET ? (
+        // Interfaces of methods, such as `Subscribable`, are proxied like object literals
+        [RET] extends [never] ? (
+            T extends { [K in keyof T]: (...args: any[]) => any } ? (
+                B extends true ? { [K in keyof Omit<T, ForbiddenProperty | symbol>]: Remote<T[K]> } : Remote<T, false>
+            ) :
+            never
+        ) : RET
     ) :
     never
 
+// The type a plugin turns T into, never if no plugin handles it
+type PluginReturnType<T> = { [K in keyof Plugins]: T extends Plugins[K]['typeOriginal'] ? Plugins[K]['returnType'] : never }[keyof Plugins]
+
 /**
  * Request structure for remote procedure calls
  */
@@ -50,11 +84,44 @@ export interface RemoteCallRequest {
     requestID: string
     consumerID: string
     realmId: string
-    operationType: 'call' | 'construct' | 'set' | 'await' | 'gc-register' | 'gc-collect' | 'ping'
+    operationType: 'call' | 'construct' | 'set' | 'await' | 'gc-register' | 'gc-collect' | 'ping' | 'hello' | 'authenticate' | 'cancel' | 'keys' | 'has' | 'delete' | 'describe'
     propertyPath: string
     args: any[]
+    /**
+     * Request ID of an earlier call or construct whose result the property path starts from
+     */
+    resultOf?: string
+    /**
+     * Set on requests that may be retried. The provider answers repeated requests with
+     * the same key from a short-lived cache instead of handling them again
+     */
+    idempotencyKey?: string
+    /**
+     * Milliseconds the consumer still waits for the response when it sends the request. Being
+     * relative, it does not depend on the clocks of both sides agreeing
+     */
+    timeLeft?: number
+    /**
+     * Time in milliseconds since the epoch on the provider's clock after which the consumer no longer
+     * waits for the response, set by the provider from `timeLeft` when the request arrives. The
+     * provider rejects requests that arrive later and aborts calls that overrun it
+     */
+    deadline?: number
+    /**
+     * Priority of the request, from `CallOptions.priority`
+     */
+    priority?: number
+    /**
+     * Headers of the request, from `CallOptions.metadata`
+     */
+    metadata?: Record<string, string>
 }
 
+/**
+ * Operations the provider never answers
+ */
+export const NOTIFICATION_OPERATIONS: readonly RemoteCallRequest['operationType'][] = ['gc-register', 'gc-collect', 'cancel'] as const
+
 /**
  * Response structure for remote procedure calls
  */
@@ -67,12 +134,91 @@ export interface RemoteCallResponse {
     consumerID: string
 }
 
+/**
+ * Property descriptor returned by `remoteDescriptor()`
+ *
+ * Values and accessor functions stay on the provider; await the property to read it.
+ */
+export interface RemotePropertyDescriptor {
+    configurable: boolean
+    enumerable: boolean
+    writable: boolean
+    /** Whether the property is defined by a getter or setter */
+    accessor: boolean
+}
+
 /**
  * Configuration options for providing objects via RPC
  */
 export interface ProvideConfig {
     allowWrite?: boolean
     name?: string
+    /**
+     * Validators for calls, keyed by the dot-separated property path (`'users.create'`).
+     * Use `''` when the provided object is a function itself. A schema also applies when its
+     * function is reached through an awaited object or the result of a call
+     */
+    schemas?: Record<string, CallSchema>
+    /**
+     * Decides per request whether a consumer may access a path. Rejected requests fail with E019
+     */
+    policy?: AccessPolicy
+    /**
+     * Middleware around every request, outermost first
+     */
+    interceptors?: Interceptor[]
+    /**
+     * Token bucket limits per consumer, realm and path. Rejected requests fail with E021
+     */
+    rateLimit?: RateLimitConfig
+    /**
+     * Size limits for incoming requests, on by default. Requests beyond them fail with E022 to E025
+     */
+    limits?: RequestLimits
+    /**
+     * Verifies consumers in the handshake and returns their identity, readable through `getCallContext()`.
+     * Other requests of unauthenticated consumers fail with E028
+     */
+    authenticate?: Authenticator
+    /**
+     * Maximum execution time of calls in milliseconds, keyed by the dot-separated property path.
+     * `'*'` applies to all other paths. Overrunning calls are aborted and fail with E029
+     */
+    budgets?: Record<string, number>
+}
+
+/**
+ * Handle returned by `provide()` to control the lifetime of a provided object
+ */
+export interface ProviderHandle {
+    /**
+     * Stops exposing the object and releases its state. Only a listener that
+     * rejects later requests with E013 is left on the endpoint
+     */
+    revoke(): void
+
+    /**
+     * Whether the provider still answers requests
+     */
+    readonly isActive: boolean
+
+    /**
+     * Number of consumers currently registered with the provider
+     */
+    readonly consumerCount: number
+
+    /**
+     * Counters of requests allowed and rejected by `ProvideConfig.rateLimit`, for monitoring
+     */
+    getRateLimitStats(): RateLimitStats
+
+    /**
+     * Registers a callback that runs once the provider stops listening because
+     * its last consumer was collected, it timed out or it was revoked
+     * @param callback - The callback to run
+     * @returns A function that unregisters the callback
+     */
+    onIdle(callback: () => void): () => void
 }
 
 /**
@@ -81,6 +227,66 @@ export interface ProvideConfig {
 export interface ConsumeConfig {
     timeout?: number
     name?: string
+    /**
+     * Exchanges versions and capabilities with the provider before the first call is sent.
+     * Calls wait for it and fail with E020 if the protocols do not match
+     */
+    handshake?: boolean
+    /**
+     * Middleware around every request, outermost first
+     */
+    interceptors?: Interceptor[]
+    /**
+     * Sends failed requests again, by default after timeouts (E002)
+     */
+    retry?: RetryPolicy
+    /**
+     * Answers the provider's challenge with credentials after the handshake, which it implies.
+     * Calls wait for it and fail with E027 if the provider rejects the credentials
+     */
+    authenticate?: CredentialsProvider
+    /**
+     * Receives the errors of plain assignments and `delete`, which can not be awaited. Without it
+     * they are logged with `console.warn` in development builds and dropped in production.
+     * `remoteSet()` and `remoteDelete()` reject instead
+     * @param error - The error the provider answered with, e.g. E008 to E010
+     * @param operation - The failed operation
+     * @param propertyPath - Dot-separated path of the property
+     */
+    onError?: (error: unknown, operation: 'set' | 'delete', propertyPath: string) => void
+}
+
+/**
+ * Options for calls made through a view created with `withOptions()`
+ */
+export interface CallOptions {
+    /**
+     * Aborts the call: the local promise rejects with the abort reason and the
+     * provider aborts the signal exposed through `getCallContext()`
+     */
+    signal?: AbortSignal
+    /**
+     * Overrides the retry policy of the consumer for these calls, `false` disables retries
+     */
+    retry?: RetryPolicy | false
+    /**
+     * Time in milliseconds since the epoch by which the calls have to finish, sent to the provider.
+     * Later calls fail with E029. Calls made while a provided function runs inherit its deadline
+     */
+    deadline?: number
+    /**
+     * Overrides the timeout of the consumer in seconds, `0` disables it
+     */
+    timeout?: number
+    /**
+     * Sent to the provider, readable through `getCallContext()` and by interceptors, e.g. to schedule work
+     */
+    priority?: number
+    /**
+     * Headers sent to the provider, readable through `getCallContext()` and by interceptors.
+     * Views derived from a view add to its metadata
+     */
+    metadata?: Record<string, string>
 }
 
 /**
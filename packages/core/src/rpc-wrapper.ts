@@ -1,10 +1,12 @@
-import { isArray, isClonable, isObject, isString, onGarbageCollected } from "@remobj/shared"
+import { isArray, isClonable, isFunction, isObject, isString, onGarbageCollected, toRawType } from "@remobj/shared"
 import { WeakBiMap } from "@remobj/weakbimap"
 import type { Channel } from "./multiplex"
-import type { PostMessageEndpoint } from "./types"
-import type { Plugins, RemoteCallRequest, RemoteCallResponse, WrappedArgument } from "./rpc-types"
-import { consume } from "./rpc-consumer"
+import type { PostMessageEndpoint, TransferList } from "./types"
+import type { Plugins, ProviderHandle, RemoteCallRequest, RemoteCallResponse, WrappedArgument } from "./rpc-types"
+import { consume, releaseProxy } from "./rpc-consumer"
+import { decodeError, encodeError } from "./error-codec"
 import { provide } from "./rpc-provider"
+import { checkRequestLimits, type RequestLimits } from "./request-limits"
 import { wrapPostMessageEndpoint } from "./wrap-endpoint"
 
 const plugins = new Map<keyof Plugins, { check: (v: unknown) => boolean, wrap: (v: any, wrap: (data: any) => WrappedArgument, unwrap: (data: WrappedArgument) => any) => any, unwrap: (v: any, wrap: (data: any) => WrappedArgument, unwrap: (data: WrappedArgument) => any) => any }>()
@@ -13,15 +15,185 @@ export const registerPlugin = <K extends keyof Plugins>(key: K, check: (v: unkno
   return plugins.set(key, { check, wrap, unwrap }) as any as void
 }
 
+/** @internal */
+export const getPluginNames = (): string[] => [...plugins.keys()]
+
 registerPlugin('Date', d => d instanceof Date, d => d.getTime(), d => new Date(d))
 
-export function createArgumentWrappingEndpoint(endpoint: Channel<any>, name = ''): PostMessageEndpoint {
-  const objectToIdMap = new WeakMap<any, string>()
+const transferMarkers = new WeakMap<object, TransferList>()
+
+/**
+ * Marks an argument or return value to be sent with a transfer list instead of being copied
+ *
+ * The marked value is sent as is, so it must be structured-clonable. Only top-level
+ * arguments and return values are checked for markers.
+ *
+ * @param value - The value to send
+ * @param transferables - Objects in the value whose ownership moves to the receiver
+ * @returns The value itself
+ *
+ * @example
+ * ```typescript
+ * const buffer = new ArrayBuffer(1024 * 1024)
+ * await worker.process(transfer(buffer, [buffer]))
+ * buffer.byteLength // 0, the worker owns it now
+ * ```
+ */
+export function transfer<T extends object>(value: T, transferables: TransferList): T {
+  transferMarkers.set(value, transferables)
+  return value
+}
+
+/**
+ * Creates a local async iterator that pulls every step from a remote iterator
+ * and releases the remote proxy once the iteration is finished
+ */
+const createRemoteAsyncIterator = (remote: any, unwrap: (data: WrappedArgument) => any): AsyncIterableIterator<unknown> => {
+  let isDone = false
+
+  const step = async (method: 'next' | 'return' | 'throw', argument: unknown): Promise<IteratorResult<unknown>> => {
+    if (isDone) {
+      return { done: true, value: undefined }
+    }
+    try {
+      const { done, value } = await remote[method](argument)
+      isDone = Boolean(done)
+      return { done: isDone, value: unwrap(value) } as IteratorResult<unknown>
+    } catch (error) {
+      isDone = true
+      throw error
+    } finally {
+      if (isDone) {releaseProxy(remote)}
+    }
+  }
+
+  const iterator: AsyncIterableIterator<unknown> = {
+    next: (value?: unknown) => step('next', value),
+    return: (value?: unknown) => step('return', value),
+    throw: (error?: unknown) => step('throw', error),
+    [Symbol.asyncIterator]: () => iterator
+  }
+  return iterator
+}
+
+/**
+ * Only async generators and plain iterator objects are streamed. Other async iterables, such as
+ * streams or class instances, have more methods than the iterator and are provided as objects
+ */
+const isPlainAsyncIterable = (v: unknown): v is AsyncIterableIterator<unknown> => {
+  if (!isObject(v) || !isFunction((v as Partial<AsyncIterable<unknown>>)[Symbol.asyncIterator])) {
+    return false
+  }
+  const prototype: unknown = Object.getPrototypeOf(v)
+  // eslint-disable-next-line unicorn/no-null
+  return toRawType(v) === 'AsyncGenerator' || prototype === Object.prototype || prototype === null
+}
+
+registerPlugin(
+  'AsyncIterable',
+  isPlainAsyncIterable,
+  (iterable, wrap) => {
+    const iterator = iterable[Symbol.asyncIterator]()
+    // Each step wraps its value on its own so non clonable values keep their type
+    const step = async (result: IteratorResult<unknown> | Promise<IteratorResult<unknown>>) => {
+      const { done, value } = await result
+      return { done, value: wrap(value) }
+    }
+
+    // A null prototype keeps the source from being treated as clonable data
+    return wrap(Object.assign(Object.create(null), {
+      next: (value?: unknown) => step(iterator.next(value)),
+      return: (value?: unknown) => step(iterator.return ? iterator.return(value) : { done: true, value }),
+      throw: (error?: unknown) => step(iterator.throw ? iterator.throw(error) : Promise.reject(error))
+    }))
+  },
+  (wrapped, _wrap, unwrap) => createRemoteAsyncIterator(unwrap(wrapped), unwrap)
+)
+
+// Errors keep their class, cause and fields across structured clone and JSON endpoints
+registerPlugin('Error', (v): v is Error => v instanceof Error, encodeError, (serialized, _wrap, unwrap) => decodeError(serialized, unwrap))
+
+/**
+ * Where the result of a response was found and which consumer it is handed to
+ * @internal
+ */
+export interface ResultScope {
+  consumerID: string
+  realmId: string
+  identity: unknown
+  /** Path of the result, relative to the provided object or to the result of a call if pipelined */
+  propertyChain: string[]
+  /** Path of the result from the provided object, results of calls continue the path of the call */
+  resolvedChain: string[]
+  pipelined: boolean
+}
+
+/**
+ * Creates the provider for a wrapped value, within the scope of the response it was found in if any
+ * @internal
+ */
+export type ValueProvider = (value: any, channel: Channel<any>, channelId: string, scope: ResultScope | undefined) => ProviderHandle
+
+const provideValue: ValueProvider = (value, channel, channelId) => provide(value, channel, { name: channelId })
+
+/**
+ * Endpoint that wraps non clonable arguments and results into sub-channel providers
+ */
+export interface ArgumentWrappingEndpoint extends PostMessageEndpoint {
+  /**
+   * Revokes every provider created for wrapped values, used when the owning consumer or provider goes away
+   */
+  revokeProvided(): void
+
+  /**
+   * Returns the error for an incoming request that was left wrapped because it exceeds the limits
+   */
+  getLimitError(request: RemoteCallRequest): Error | undefined
+
+  /**
+   * Sets the scope of a response before it is sent, the providers of values wrapped in its result get it
+   */
+  setResultScope(response: RemoteCallResponse, scope: ResultScope): void
+}
+
+/**
+ * Creates an endpoint that wraps non clonable arguments and results into sub-channel providers
+ * @param endpoint - The multiplexed endpoint to send through
+ * @param name - Name for debugging
+ * @param limits - Limits for incoming requests. Only providers pass them
+ * @param provideWrapped - Creates the providers of wrapped values. Providers pass one that applies their own settings
+ * @returns The wrapping endpoint
+ */
+export function createArgumentWrappingEndpoint(endpoint: Channel<any>, name = '', limits?: Required<RequestLimits>, provideWrapped: ValueProvider = provideValue): ArgumentWrappingEndpoint {
+  // IDs of wrapped values by scope, so consumers the same value is handed to in different scopes get their own providers
+  const objectToIdMap = new WeakMap<any, Map<string, string>>()
   const idToProxyMap = new WeakBiMap<string, any>()
   const idToObjectMap = new WeakBiMap<string, any>()
   const proxyToIdMap = new WeakMap<any, string>()
+  const providedHandles = new Map<string, ProviderHandle>()
+  // Incoming requests that exceed the limits, left wrapped
+  const limitErrors = new WeakMap<RemoteCallRequest, Error>()
+  const resultScopes = new WeakMap<RemoteCallResponse, ResultScope>()
+  // Transfer list and scope of the message that is currently being wrapped
+  let outgoingTransfers: TransferList = []
+  let outgoingScope: ResultScope | undefined
+
+  // Forgets a wrapped value, unless it has been wrapped again under a new ID since
+  const forgetWrapped = (id: string, data: unknown) => {
+    const ids = objectToIdMap.get(data)
+    ids?.forEach((wrappedId, scopeKey) => wrappedId === id && ids.delete(scopeKey))
+    idToObjectMap.delete(id)
+  }
 
   function wrapArgument(data: any): WrappedArgument {
+    const transferables = isObject(data) ? transferMarkers.get(data) : undefined
+    if (transferables) {
+      outgoingTransfers.push(...transferables)
+      return {
+        type: 'raw',
+        value: data
+      }
+    }
     if (isClonable(data)) {
       return {
         type: 'raw',
@@ -38,18 +210,38 @@ export function createArgumentWrappingEndpoint(endpoint: Channel<any>, name = ''
         }
       }
 
-      let id = objectToIdMap.get(data)
+      const scope = outgoingScope
+      const scopeKey = scope ? `${scope.consumerID}/${scope.pipelined}/${scope.propertyChain.join('.')}` : ''
+      let ids = objectToIdMap.get(data)
+      if (!ids) {
+        ids = new Map()
+        objectToIdMap.set(data, ids)
+      }
+      let id = ids.get(scopeKey)
       if (!id) {
         id = proxyToIdMap.get(data)
       }
       if (!id) {
         id = /*#__PURE__*/ crypto.randomUUID()
       }
-      objectToIdMap.set(data, id)
+      ids.set(scopeKey, id)
       idToObjectMap.set(id, data)
 
-      const channel = endpoint.createSubChannel(id)
-      provide(data, channel, { name: id })
+      if (!providedHandles.has(id)) {
+        const channelId = id
+        const channel = endpoint.createSubChannel(channelId)
+        const handle = provideWrapped(data, channel, channelId, scope)
+        providedHandles.set(channelId, handle)
+
+        // Once the last consumer is gone the sub-channel is closed and the value forgotten.
+        // Revoked providers keep their sub-channel open to answer later requests with E013
+        handle.onIdle(() => {
+          if (providedHandles.get(channelId) !== handle) {return}
+          providedHandles.delete(channelId)
+          forgetWrapped(channelId, data)
+          return channel.close()
+        })
+      }
 
       return {
         type: 'wrapped',
@@ -100,12 +292,25 @@ export function createArgumentWrappingEndpoint(endpoint: Channel<any>, name = ''
   }
 
   function handleData(data: RemoteCallRequest | RemoteCallResponse, isOutgoing: boolean) {
-    
-    if ('type' in data && data.type === 'response' && data.resultType === 'result') {
-      // Only process non-error results
+    // Oversized requests are passed on without unwrapping any argument, the provider rejects them
+    if (limits && !isOutgoing && 'operationType' in data) {
+      const error = checkRequestLimits(data, limits)
+      if (error) {
+        limitErrors.set(data, error)
+        return data
+      }
+    }
+
+    if ('type' in data && data.type === 'response') {
+      // Results and errors are wrapped alike
       // If we're wrapping (provider side), wrap the result
       if (isOutgoing) {
-        data.result = wrapArgument(data.result)
+        outgoingScope = resultScopes.get(data)
+        try {
+          data.result = wrapArgument(data.result)
+        } finally {
+          outgoingScope = undefined
+        }
       }
 
       // If we're unwrapping (consumer side), check if result is wrapped
@@ -132,5 +337,26 @@ export function createArgumentWrappingEndpoint(endpoint: Channel<any>, name = ''
     return data
   }
 
-  return wrapPostMessageEndpoint(endpoint, data => handleData(data, true), data => handleData(data, false), 'ARGUMENTWRAPPING', name)
+  const wrappedEndpoint = wrapPostMessageEndpoint<any, any>(endpoint, data => handleData(data, true), data => handleData(data, false), 'ARGUMENTWRAPPING', name)
+
+  return {
+    postMessage: (data, transfer = []) => {
+      // Marked values add their transferables while the message is wrapped
+      outgoingTransfers = [...transfer]
+      return wrappedEndpoint.postMessage(data, outgoingTransfers)
+    },
+    addEventListener: (type, listener) => wrappedEndpoint.addEventListener(type, listener),
+    removeEventListener: (type, listener) => wrappedEndpoint.removeEventListener(type, listener),
+    revokeProvided: () => {
+      // Values wrapped again get new sub-channels
+      const revoked = [...providedHandles]
+      providedHandles.clear()
+      revoked.forEach(([id, handle]) => {
+        forgetWrapped(id, idToObjectMap.get(id))
+        handle.revoke()
+      })
+    },
+    getLimitError: request => limitErrors.get(request),
+    setResultScope: (response, scope) => { resultScopes.set(response, scope) }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { isObject, isString, NOOP } from "@remobj/shared"
+import { decodeBase64, encodeBase64, isTextEndpoint, toBytes } from "./codec.js"
+import { msgpackCodec } from "./msgpack.js"
+import type { PostMessageEndpointBase } from "./types.js"
+import { wrapPostMessageEndpoint } from "./wrap-endpoint.js"
+
+// Replays are also caught after a session was forgotten, as long as its nonces are still known
+const MAX_SESSIONS = 1000
+const MAX_NONCES = 10_000
+
+/**
+ * Signs frames with a secret shared by both sides
+ */
+export interface HmacSigningOptions {
+  algorithm: 'HMAC'
+
+  /**
+   * The shared secret, raw bytes or an HMAC key that may sign and verify
+   */
+  secret: CryptoKey | Uint8Array<ArrayBuffer> | ArrayBuffer
+
+  /**
+   * Called for every dropped frame
+   */
+  onReject?: (reason: SignatureRejection) => void
+}
+
+/**
+ * Signs frames with an own private key, frames of the peer are verified with its public key
+ */
+export interface Ed25519SigningOptions {
+  algorithm: 'Ed25519'
+
+  /**
+   * Private key frames are signed with
+   */
+  privateKey: CryptoKey
+
+  /**
+   * Public key of the peer, frames are verified with it
+   */
+  peerPublicKey: CryptoKey
+
+  /**
+   * Called for every dropped frame
+   */
+  onReject?: (reason: SignatureRejection) => void
+}
+
+/**
+ * Options for `createSignedEndpoint()`
+ */
+export type SigningOptions = HmacSigningOptions | Ed25519SigningOptions
+
+/**
+ * Why a frame was dropped
+ * - `unsigned`: the frame has no signature
+ * - `signature`: the signature does not match
+ * - `replay`: the nonce was seen before, the counter did not increase or the frame was sent by the endpoint itself
+ */
+export type SignatureRejection = 'unsigned' | 'signature' | 'replay'
+
+interface SignedMessage {
+  signed: Uint8Array | string
+  signature: Uint8Array | string
+}
+
+// The signed content. Each endpoint is a session with its own counter
+interface SignedContent {
+  session: string
+  counter: number
+  nonce: string
+  data: unknown
+}
+
+const isSignedMessage = (data: unknown): data is SignedMessage => isObject(data) && 'signed' in data && 'signature' in data
+
+// Drops the oldest entries of a set or map beyond its limit, both keep the insertion order
+const remember = <T>(entries: Set<T> | Map<T, number>, limit: number) => {
+  for (const key of entries.keys()) {
+    if (entries.size <= limit) {return}
+    entries.delete(key)
+  }
+}
+
+/**
+ * Creates an endpoint that signs every message and rejects messages that are not signed by
+ * the peer, for transports that anyone can post to, such as `windowEndpoint()`
+ *
+ * Messages are not encrypted, see `createEncryptedEndpoint()` for that. Every frame carries a
+ * random nonce and a counter that increases per endpoint, both are signed along with the message.
+ * Frames with a missing or wrong signature, a nonce that was seen before, a counter that did
+ * not increase or the session of the endpoint itself are dropped before they reach the multiplexer. Messages are encoded as MessagePack,
+ * signatures are `Uint8Array`s or base64 strings while `endpoint` is a codec endpoint that sends JSON.
+ *
+ * @param endpoint - The endpoint to sign messages for
+ * @param options - The algorithm and its keys
+ * @param name - Name for debugging
+ * @returns The endpoint, messages keep their order
+ *
+ * @example
+ * ```typescript
+ * // Both windows know the secret, frames posted by other windows are dropped
+ * const endpoint = createSignedEndpoint(windowEndpoint(iframe.contentWindow, 'frame'), { algorithm: 'HMAC', secret })
+ * const api = consume<API>(endpoint)
+ * ```
+ */
+export const createSignedEndpoint = (
+  endpoint: PostMessageEndpointBase<any>,
+  options: SigningOptions,
+  name = ''
+): PostMessageEndpointBase<any> => {
+  const { onReject } = options
+  const session = crypto.randomUUID()
+  const lastCounters = new Map<string, number>()
+  const seenNonces = new Set<string>()
+  let counter = 0
+
+  const hmacKey = options.algorithm === 'HMAC' && !(options.secret instanceof CryptoKey)
+    ? crypto.subtle.importKey('raw', options.secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+    : undefined
+
+  const sign = async (bytes: Uint8Array<ArrayBuffer>) => options.algorithm === 'HMAC'
+    ? crypto.subtle.sign('HMAC', await hmacKey ?? options.secret as CryptoKey, bytes)
+    : crypto.subtle.sign('Ed25519', options.privateKey, bytes)
+
+  const verify = async (signature: Uint8Array<ArrayBuffer>, bytes: Uint8Array<ArrayBuffer>) => options.algorithm === 'HMAC'
+    ? crypto.subtle.verify('HMAC', await hmacKey ?? options.secret as CryptoKey, signature, bytes)
+    : crypto.subtle.verify('Ed25519', options.peerPublicKey, signature, bytes)
+
+  const toPayload = (bytes: Uint8Array) => isTextEndpoint(endpoint) ? encodeBase64(bytes) : bytes
+  const fromPayload = (payload: Uint8Array | string) => isString(payload) ? decodeBase64(payload) : new Uint8Array(toBytes(payload))
+
+  const drop = (reason: SignatureRejection): never => {
+    onReject?.(reason)
+    throw new Error(reason)
+  }
+
+  // The counter is taken right away, so it increases in the order messages are posted
+  const signMessage = async (data: unknown): Promise<SignedMessage> => {
+    const content: SignedContent = { session, counter: ++counter, nonce: encodeBase64(crypto.getRandomValues(new Uint8Array(16))), data }
+    const signed = new Uint8Array(msgpackCodec.encode(content) as ArrayBuffer)
+    return { signed: toPayload(signed), signature: toPayload(new Uint8Array(await sign(signed))) }
+  }
+
+  // Nothing of the frame is decoded before its signature is checked
+  const verifyNext = async (message: unknown): Promise<unknown> => {
+    if (!isSignedMessage(message)) {
+      return drop('unsigned')
+    }
+    const signed = fromPayload(message.signed)
+    if (!await verify(fromPayload(message.signature), signed)) {
+      return drop('signature')
+    }
+
+    // With a shared secret, a frame posted back to its sender has a valid signature as well
+    const content = msgpackCodec.decode(signed) as SignedContent
+    if (content.session === session || seenNonces.has(content.nonce) || !(content.counter > (lastCounters.get(content.session) ?? 0))) {
+      return drop('replay')
+    }
+    seenNonces.add(content.nonce)
+    remember(seenNonces, MAX_NONCES)
+    lastCounters.delete(content.session)
+    lastCounters.set(content.session, content.counter)
+    remember(lastCounters, MAX_SESSIONS)
+    return content.data
+  }
+
+  // Frames are verified one after another, so the counter is checked in the order they arrived
+  let verifying: Promise<unknown> = Promise.resolve()
+
+  const verifyMessage = (message: unknown): Promise<unknown> => {
+    const verified = verifying.then(() => verifyNext(message))
+    verifying = verified.catch(NOOP)
+    return verified
+  }
+
+  return /*#__PURE__*/ wrapPostMessageEndpoint<any, any>(
+    endpoint,
+    signMessage,
+    verifyMessage,
+    'SIGNING',
+    name
+  )
+}
@@ -1,11 +1,18 @@
 export type Listener<_T> = (this: unknown, ev: MessageEvent) => any
 
+/**
+ * Objects whose ownership moves to the receiver instead of being copied,
+ * such as `ArrayBuffer`, `MessagePort`, `OffscreenCanvas` or streams
+ */
+export type TransferList = object[]
+
 export interface PostMessageEndpointBase<T = unknown> {
   /**
    * Sends a message to the endpoint
    * @param data - The data to send
+   * @param transfer - Objects to transfer instead of copying, ignored by endpoints that serialize to strings
    */
-  postMessage(data: T): void
+  postMessage(data: T, transfer?: TransferList): void
 
   /**
    * Adds an event listener for incoming messages
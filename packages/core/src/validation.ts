@@ -0,0 +1,64 @@
+import { isFunction } from "@remobj/shared"
+
+/**
+ * Minimal subset of the Standard Schema interface (https://standardschema.dev)
+ * implemented by validation libraries such as Zod, Valibot and ArkType
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly input: Input, readonly output: Output } | undefined
+  }
+}
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output, readonly issues?: undefined }
+  | { readonly issues: readonly { readonly message: string, readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] }[] }
+
+/**
+ * Checks a value, either as a Standard Schema or as a function returning `false` for invalid values
+ */
+export type Validator = StandardSchemaV1 | ((value: unknown) => boolean)
+
+/**
+ * Validators for the arguments and the result of a provided function or constructor
+ */
+export interface CallSchema {
+  /**
+   * Checks the argument list before the function is invoked. Rejected with E017
+   */
+  args?: Validator
+
+  /**
+   * Checks the value the function resolves to before it is sent back. Rejected with E018
+   */
+  result?: Validator
+}
+
+/**
+ * Runs a validator against a value
+ * @param validator - The validator to run
+ * @param value - The value to check
+ * @returns The validated value (as output by a Standard Schema) or the issue messages
+ */
+export const runValidator = async (validator: Validator, value: unknown): Promise<{ value: unknown } | { issues: string[] }> => {
+  if (isFunction(validator)) {
+    return validator(value) === false ? { issues: [] } : { value }
+  }
+
+  const result = await validator['~standard'].validate(value)
+  if (result.issues) {
+    return {
+      issues: result.issues.map(({ message, path = [] }) => {
+        const keys = path.map(segment => String(typeof segment === 'object' ? segment.key : segment))
+        return keys.length > 0 ? `${keys.join('.')}: ${message}` : message
+      })
+    }
+  }
+  return { value: result.value }
+}
@@ -0,0 +1,439 @@
+import { WeakBiMap } from "@remobj/weakbimap"
+import { devtools, getTraceID } from "./devtools.js"
+import type { Listener, PostMessageEndpoint } from "./types.js"
+
+const ACK_DELAY_MS = 20
+
+/**
+ * The part of the WebSocket interface a session needs, implemented by browser
+ * WebSockets and by the `ws` package
+ */
+export interface SessionSocket {
+  send(data: string): void
+  close(): void
+  addEventListener(type: 'open' | 'message' | 'close', listener: (event: any) => void): void
+}
+
+/**
+ * Connection state of a reconnecting endpoint
+ * - `connecting`: waiting for the socket, messages are buffered
+ * - `open`: the session is established, messages are sent right away
+ * - `closed`: `close()` was called, retries ran out or the server dropped the session
+ */
+export type SessionState = 'connecting' | 'open' | 'closed'
+
+/**
+ * Options for `createReconnectingWebsocketEndpoint()`
+ */
+export interface ReconnectOptions {
+  /**
+   * Name for debugging
+   */
+  name?: string
+
+  /**
+   * Delay before the first reconnect attempt in milliseconds, doubled on every failed attempt
+   * @default 250
+   */
+  minDelay?: number
+
+  /**
+   * Upper bound for the reconnect delay in milliseconds
+   * @default 10000
+   */
+  maxDelay?: number
+
+  /**
+   * Reconnect attempts in a row before the endpoint gives up and closes
+   * @default Infinity
+   */
+  maxRetries?: number
+
+  /**
+   * Called whenever the connection state changes
+   */
+  onStateChange?: (state: SessionState) => void
+}
+
+/**
+ * Endpoint returned by `createReconnectingWebsocketEndpoint()`
+ */
+export interface ReconnectingEndpoint extends PostMessageEndpoint {
+  /**
+   * ID the server resumes the session by
+   */
+  readonly sessionID: string
+
+  /**
+   * Current connection state
+   */
+  readonly state: SessionState
+
+  /**
+   * Closes the socket and ends the session on the server
+   */
+  close(): void
+}
+
+/**
+ * Options for `createWebsocketSessionServer()`
+ */
+export interface SessionServerOptions {
+  /**
+   * Name for debugging
+   */
+  name?: string
+
+  /**
+   * How long a session without socket is kept for the client to resume, in milliseconds
+   * @default 30000
+   */
+  sessionTimeout?: number
+}
+
+/**
+ * Server side of resumable sessions, created by `createWebsocketSessionServer()`
+ */
+export interface SessionServer {
+  /**
+   * Takes over an accepted socket. The first frame decides whether it starts or resumes a session
+   */
+  accept(socket: SessionSocket): void
+
+  /**
+   * Closes every socket and forgets every session
+   */
+  close(): void
+}
+
+type Frame =
+  | { t: 'hello', session: string, ack: number, resume: boolean }
+  | { t: 'msg', seq: number, data: unknown }
+  | { t: 'ack', seq: number }
+  | { t: 'expired' }
+  | { t: 'bye' }
+
+const sendFrame = (socket: SessionSocket, frame: Frame | string) => {
+  try {
+    socket.send(typeof frame === 'string' ? frame : JSON.stringify(frame))
+  } catch {
+    // The socket closed meanwhile, the frame is replayed on the next one
+  }
+}
+
+const parseFrame = (raw: unknown): Frame | undefined => {
+  try {
+    const frame = JSON.parse(String(raw))
+    return frame && typeof frame.t === 'string' ? frame : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Sequenced message stream that outlives its sockets. Sent messages stay buffered
+ * until the peer acknowledges them and are replayed on the next socket
+ */
+const createSession = (sessionID: string, type: string, name: string) => {
+  const endpointID = /*#__PURE__*/ crypto.randomUUID()
+  const listeners = new WeakBiMap<Listener<any>, true>()
+  // Serialized message frames by sequence number
+  const unacknowledged: { seq: number, frame: string }[] = []
+  let socket: SessionSocket | undefined
+  let sent = 0
+  let received = 0
+  let ackTimer: ReturnType<typeof setTimeout> | undefined
+
+  const acknowledge = (seq: number) => {
+    const pending = unacknowledged.findIndex(message => message.seq > seq)
+    unacknowledged.splice(0, pending === -1 ? unacknowledged.length : pending)
+  }
+
+  const endpoint: PostMessageEndpoint = {
+    addEventListener: (_type, listener) => listeners.set(listener, true),
+    removeEventListener: (_type, listener) => listeners.delete(listener),
+    postMessage: (data) => {
+      if (__DEV__ || __PROD_DEVTOOLS__) {
+        devtools(getTraceID(data), 'postMessage', endpointID, type, name, '', data)
+      }
+      // Serialized right away, so later changes to the data do not alter a replay
+      const seq = ++sent
+      const frame = JSON.stringify({ t: 'msg', seq, data } satisfies Frame)
+      unacknowledged.push({ seq, frame })
+      if (socket) {
+        sendFrame(socket, frame)
+      }
+    }
+  }
+
+  return {
+    sessionID,
+    endpoint,
+    get received() { return received },
+    get isAttached() { return socket !== undefined },
+
+    /** Switches to a new socket and replays everything the peer has not received */
+    attach: (newSocket: SessionSocket, peerAck: number) => {
+      // A client that reconnects may leave a half-open socket behind
+      if (socket && socket !== newSocket) {
+        socket.close()
+      }
+      socket = newSocket
+      acknowledge(peerAck)
+      unacknowledged.forEach(message => sendFrame(newSocket, message.frame))
+    },
+
+    detach: (oldSocket: SessionSocket) => {
+      if (socket === oldSocket) {
+        socket = undefined
+        clearTimeout(ackTimer)
+        ackTimer = undefined
+      }
+    },
+
+    receive: (from: SessionSocket, frame: Frame) => {
+      if (from !== socket) {
+        return
+      }
+      if (frame.t === 'ack') {
+        return acknowledge(frame.seq)
+      }
+      // Messages the peer replays after a reconnect may have arrived before
+      if (frame.t !== 'msg' || frame.seq !== received + 1) {
+        return
+      }
+      received = frame.seq
+
+      ackTimer ??= setTimeout(() => {
+        ackTimer = undefined
+        if (socket) {
+          sendFrame(socket, { t: 'ack', seq: received })
+        }
+      }, ACK_DELAY_MS)
+
+      if (__DEV__ || __PROD_DEVTOOLS__) {
+        devtools(getTraceID(frame.data), 'event', endpointID, type, name, '', frame.data)
+      }
+      const event = /*#__PURE__*/ new MessageEvent('message', { data: frame.data })
+      listeners.forEach((_, listener) => listener(event))
+    },
+
+    dispose: () => {
+      clearTimeout(ackTimer)
+      socket = undefined
+      unacknowledged.length = 0
+    }
+  }
+}
+
+/**
+ * Creates a WebSocket endpoint that survives dropped connections
+ *
+ * The endpoint opens a new socket with exponential backoff whenever the current one closes
+ * and resumes its session on a server created with `createWebsocketSessionServer()`.
+ * Messages sent while disconnected, and messages the other side has not acknowledged,
+ * are replayed after the reconnect, so pending calls complete and existing `Remote`
+ * proxies and callbacks stay valid.
+ *
+ * @param connect - URL to connect to, or a function opening a new socket
+ * @param options - Reconnect options
+ * @returns An endpoint that can be passed to `consume()` or `provide()`
+ *
+ * @example
+ * ```typescript
+ * const endpoint = createReconnectingWebsocketEndpoint('wss://api.example.com', {
+ *   onStateChange: state => console.log('connection', state)
+ * })
+ * const api = consume<API>(endpoint)
+ * ```
+ */
+export const createReconnectingWebsocketEndpoint = (
+  connect: string | URL | (() => SessionSocket),
+  options: ReconnectOptions = {}
+): ReconnectingEndpoint => {
+  const { name = '', minDelay = 250, maxDelay = 10_000, maxRetries = Infinity, onStateChange } = options
+  const openSocket = typeof connect === 'function' ? connect : () => new WebSocket(connect)
+  const session = createSession(/*#__PURE__*/ crypto.randomUUID(), 'WEBSOCKET-SESSION', name)
+
+  let state: SessionState = 'connecting'
+  let current: SessionSocket | undefined
+  let attempt = 0
+  let hasConnected = false
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+  const setState = (next: SessionState) => {
+    if (state !== next) {
+      state = next
+      onStateChange?.(next)
+    }
+  }
+
+  const close = () => {
+    if (state === 'closed') {
+      return
+    }
+    clearTimeout(retryTimer)
+    if (current) {
+      sendFrame(current, { t: 'bye' })
+      current.close()
+      current = undefined
+    }
+    session.dispose()
+    setState('closed')
+  }
+
+  const scheduleReconnect = () => {
+    if (state === 'closed') {
+      return
+    }
+    if (attempt >= maxRetries) {
+      return close()
+    }
+    setState('connecting')
+    retryTimer = setTimeout(open, Math.min(maxDelay, minDelay * 2 ** attempt++))
+  }
+
+  const open = () => {
+    let socket: SessionSocket
+    try {
+      socket = openSocket()
+    } catch {
+      return scheduleReconnect()
+    }
+    current = socket
+
+    socket.addEventListener('open', () => {
+      sendFrame(socket, { t: 'hello', session: session.sessionID, ack: session.received, resume: hasConnected })
+    })
+
+    socket.addEventListener('message', (event) => {
+      const frame = parseFrame(event.data)
+      if (!frame || socket !== current) {
+        return
+      }
+      if (frame.t === 'hello') {
+        attempt = 0
+        hasConnected = true
+        session.attach(socket, frame.ack)
+        return setState('open')
+      }
+      if (frame.t === 'expired') {
+        return close()
+      }
+      session.receive(socket, frame)
+    })
+
+    socket.addEventListener('close', () => {
+      session.detach(socket)
+      if (socket === current) {
+        current = undefined
+        scheduleReconnect()
+      }
+    })
+  }
+
+  open()
+
+  return {
+    addEventListener: session.endpoint.addEventListener,
+    removeEventListener: session.endpoint.removeEventListener,
+    postMessage: (data) => {
+      if (state !== 'closed') {
+        session.endpoint.postMessage(data)
+      }
+    },
+    sessionID: session.sessionID,
+    get state() { return state },
+    close
+  }
+}
+
+/**
+ * Creates the server side for `createReconnectingWebsocketEndpoint()`
+ *
+ * Every new session gets its own endpoint, passed to `onSession`. When a client reconnects,
+ * its socket is attached to the existing session, so everything provided or consumed
+ * through that endpoint carries on. Sessions whose client does not come back within
+ * `sessionTimeout` are dropped.
+ *
+ * @param onSession - Called with the endpoint of every new session
+ * @param options - Server options
+ * @returns The session server, hand it every accepted socket
+ *
+ * @example
+ * ```typescript
+ * const sessions = createWebsocketSessionServer(endpoint => provide(api, endpoint))
+ * wss.on('connection', socket => sessions.accept(socket))
+ * ```
+ */
+export const createWebsocketSessionServer = (
+  onSession: (endpoint: PostMessageEndpoint, sessionID: string) => void,
+  options: SessionServerOptions = {}
+): SessionServer => {
+  const { name = '', sessionTimeout = 30_000 } = options
+  const sessions = new Map<string, ReturnType<typeof createSession>>()
+  const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  const sockets = new Set<SessionSocket>()
+
+  const drop = (sessionID: string) => {
+    clearTimeout(expiryTimers.get(sessionID))
+    expiryTimers.delete(sessionID)
+    sessions.get(sessionID)?.dispose()
+    sessions.delete(sessionID)
+  }
+
+  const accept = (socket: SessionSocket) => {
+    let session: ReturnType<typeof createSession> | undefined
+    sockets.add(socket)
+
+    socket.addEventListener('message', (event) => {
+      const frame = parseFrame(event.data)
+      if (!frame) {
+        return
+      }
+      if (session) {
+        return frame.t === 'bye' ? drop(session.sessionID) : session.receive(socket, frame)
+      }
+      if (frame.t !== 'hello' || typeof frame.session !== 'string') {
+        return
+      }
+
+      const existing = sessions.get(frame.session)
+      if (!existing && frame.resume) {
+        sendFrame(socket, { t: 'expired' })
+        return socket.close()
+      }
+
+      session = existing ?? createSession(frame.session, 'WEBSOCKET-SESSION-SERVER', name)
+      clearTimeout(expiryTimers.get(session.sessionID))
+      expiryTimers.delete(session.sessionID)
+
+      sendFrame(socket, { t: 'hello', session: session.sessionID, ack: session.received, resume: !!existing })
+      session.attach(socket, frame.ack)
+      if (!existing) {
+        sessions.set(session.sessionID, session)
+        onSession(session.endpoint, session.sessionID)
+      }
+    })
+
+    socket.addEventListener('close', () => {
+      sockets.delete(socket)
+      if (!session || sessions.get(session.sessionID) !== session) {
+        return
+      }
+      session.detach(socket)
+      if (!session.isAttached) {
+        const { sessionID } = session
+        expiryTimers.set(sessionID, setTimeout(() => drop(sessionID), sessionTimeout))
+      }
+    })
+  }
+
+  const close = () => {
+    [...sessions.keys()].forEach(drop)
+    sockets.forEach(socket => socket.close())
+    sockets.clear()
+  }
+
+  return { accept, close }
+}
@@ -1,10 +1,36 @@
-import { onGarbageCollected } from "@remobj/shared"
+import { isArray, isPromise, isString, NOOP, onGarbageCollected } from "@remobj/shared"
 import { WeakBiMap } from "@remobj/weakbimap"
 import { devtools, getTraceID } from "./devtools.js"
-import type { Listener, PostMessageEndpoint, PostMessageEndpointBase } from "./types.js"
+import { jsonCodec, type Codec, type CodecEndpoint } from "./codec.js"
+import type { Listener, PostMessageEndpoint, PostMessageEndpointBase, TransferList } from "./types.js"
+
+/**
+ * Delivers transformed messages in the order they arrived. Once a transform returns a promise,
+ * later messages wait for it; a rejected transform drops its message
+ * @internal
+ */
+export const createOrderedDelivery = (): <T>(value: T | Promise<T>, deliver: (value: T) => void) => void => {
+  let pending: Promise<void> | undefined
+
+  return <T>(value: T | Promise<T>, deliver: (value: T) => void): void => {
+    if (!pending && !isPromise(value)) {
+      return deliver(value)
+    }
+    const current = Promise.all([value, pending]).then(([resolved]) => deliver(resolved)).catch(NOOP)
+    pending = current
+    current.then(() => {
+      if (pending === current) {
+        pending = undefined
+      }
+    })
+  }
+}
 
 /**
  * Creates a wrapped PostMessageEndpoint that transforms data using provided functions
+ *
+ * The transforms may return promises for asynchronous work such as compression; messages keep
+ * their order and wait for the ones before them.
  * 
  * @template TInput - The input data type for postMessage
  * @template TOutput - The output data type from MessageEvent
@@ -31,17 +57,17 @@ import type { Listener, PostMessageEndpoint, PostMessageEndpointBase } from "./t
  */
 export const wrapPostMessageEndpoint = <TThisRealm, TThatRealm>(
   endpoint: PostMessageEndpointBase<TThatRealm>,
-  serializeOutgoing: (data: TThisRealm) => TThatRealm = (data: any) => data,
-  deserializeIncoming: (data: TThatRealm) => TThisRealm = (data: any) => data,
+  serializeOutgoing: (data: TThisRealm) => TThatRealm | Promise<TThatRealm> = (data: any) => data,
+  deserializeIncoming: (data: TThatRealm) => TThisRealm | Promise<TThisRealm> = (data: any) => data,
   type = '',
   name = ''
 ): PostMessageEndpointBase<TThisRealm> => {
   const activeListeners = new WeakBiMap<Listener<TThisRealm>, true>()
   const wrapperID = /*#__PURE__*/ crypto.randomUUID();
+  const deliverIncoming = createOrderedDelivery()
+  const deliverOutgoing = createOrderedDelivery()
 
-
-  const incomingMessageHandler = (event: MessageEvent) => {
-    const data = deserializeIncoming(event.data)
+  const incomingMessageHandler = (event: MessageEvent) => deliverIncoming(deserializeIncoming(event.data), data => {
     const transformedEvent = new MessageEvent('message', { data })
     
     if ((__DEV__ || __PROD_DEVTOOLS__)) {
@@ -51,23 +77,22 @@ export const wrapPostMessageEndpoint = <TThisRealm, TThatRealm>(
     }
 
     activeListeners.forEach((_: true, listener: Listener<TThisRealm>) => listener(transformedEvent))
-  }
+  })
 
   endpoint.addEventListener('message', incomingMessageHandler)
 
 
   const wrappedEndpoint = {
-    postMessage: (data: TThisRealm): void => {
-      const serializedData = serializeOutgoing(data)
-      
+    postMessage: (data: TThisRealm, transfer?: TransferList): void => deliverOutgoing(serializeOutgoing(data), serializedData => {
       if ((__DEV__ || __PROD_DEVTOOLS__)) {
         const traceID = getTraceID(data, serializedData)
         devtools(traceID, "postMessage", wrapperID, type, name, "preserialised", data)
         devtools(traceID, "postMessage", wrapperID, type, name, "serialised", serializedData) 
       }
 
-      return endpoint.postMessage(serializedData)
-    },
+      // Read after serializing, so the serializer can still add to the transfer list
+      return transfer?.length ? endpoint.postMessage(serializedData, transfer) : endpoint.postMessage(serializedData)
+    }),
 
     addEventListener: (type: 'message', listener: Listener<TThisRealm>): void => activeListeners.set(listener, true) as any,
     removeEventListener: (type: 'message', listener: Listener<TThisRealm>): void => activeListeners.delete(listener) as any
@@ -122,14 +147,40 @@ export const connectEndpoints = (ep1: PostMessageEndpoint, ep2: PostMessageEndpo
   return ep2.addEventListener('message', ev => ep1.postMessage(ev.data))
 }
 
-type BaseSendingEndpoint = Omit<PostMessageEndpoint, 'postMessage'> & {send: PostMessageEndpoint['postMessage']}
+type BaseSendingEndpoint = Omit<PostMessageEndpoint, 'postMessage'> & {send: PostMessageEndpoint['postMessage'], binaryType?: string}
 
-export const createSendingEndpoint = (sendingEp: BaseSendingEndpoint, type = '', name = ''): PostMessageEndpoint => {
+/**
+ * Creates an endpoint on top of a transport with a `send` method, such as a WebSocket or RTCDataChannel
+ *
+ * A single codec is used from the start, so both sides need the same one. A list of codecs is
+ * offered in the handshake (`ConsumeConfig.handshake`) in order of preference; messages are sent
+ * as JSON until it has chosen one. Received frames are decoded by their type, strings as JSON
+ * unless the chosen codec is a string codec.
+ *
+ * @param sendingEp - The transport
+ * @param type - Type shown in the devtools
+ * @param name - Name for debugging
+ * @param codec - The codec, or the codecs to choose from
+ * @returns The endpoint
+ */
+export const createSendingEndpoint = (sendingEp: BaseSendingEndpoint, type = '', name = '', codec: Codec | Codec[] = jsonCodec): CodecEndpoint => {
   const webSocketEpID = /*#__PURE__*/ crypto.randomUUID()
   const listenerMap = /*#__PURE__*/ new WeakBiMap<Listener<any>, true>()
+  const codecs = isArray(codec) ? codec : [codec]
+  let active = isArray(codec) ? jsonCodec : codec
+
+  // Binary frames arrive as Blobs by default, which can only be read asynchronously
+  if (codecs.some(({ binary }) => binary) && 'binaryType' in sendingEp) {
+    sendingEp.binaryType = 'arraybuffer'
+  }
+
+  const getDecoder = (frame: unknown) => {
+    const binary = !isString(frame)
+    return active.binary === binary ? active : codecs.find(candidate => candidate.binary === binary) ?? jsonCodec
+  }
 
   const mainListener = (ev: MessageEvent) => {
-    const data = /*#__PURE__*/ JSON.parse(ev.data)
+    const data = /*#__PURE__*/ getDecoder(ev.data).decode(ev.data)
 
     if(__DEV__ || __PROD_DEVTOOLS__) {
       const traceID = getTraceID(data)
@@ -142,7 +193,7 @@ export const createSendingEndpoint = (sendingEp: BaseSendingEndpoint, type = '',
 
   sendingEp.addEventListener('message', mainListener)
 
-  const ep: PostMessageEndpoint = {
+  const ep: CodecEndpoint = {
     addEventListener: (_type, listener) => listenerMap.set(listener, true),
     removeEventListener: (_type, listener) => listenerMap.delete(listener),
     postMessage: (data) => {
@@ -150,7 +201,12 @@ export const createSendingEndpoint = (sendingEp: BaseSendingEndpoint, type = '',
         const traceID = getTraceID(data)
         devtools(traceID, 'postMessage', webSocketEpID, type, name, '', data)
       }
-      return sendingEp.send(JSON.stringify(data))
+      return sendingEp.send(active.encode(data))
+    },
+    codecs: [...new Set([...codecs.map(({ name }) => name), jsonCodec.name])],
+    get codec() { return active.name },
+    useCodec: (codecName) => {
+      active = codecs.find(candidate => candidate.name === codecName) ?? (codecName === jsonCodec.name ? jsonCodec : active)
     }
   }
 
@@ -159,4 +215,11 @@ export const createSendingEndpoint = (sendingEp: BaseSendingEndpoint, type = '',
   return ep
 }
 
-export const createWebsocketEndpoint = (ws: WebSocket, name: string): PostMessageEndpoint => createSendingEndpoint(ws, 'WEBSOCKET', name)
\ No newline at end of file
+/**
+ * Creates an endpoint on top of a WebSocket, see `createSendingEndpoint()` for codecs
+ * @param ws - The WebSocket
+ * @param name - Name for debugging
+ * @param codec - The codec, or the codecs to choose from in the handshake
+ * @returns The endpoint
+ */
+export const createWebsocketEndpoint = (ws: WebSocket, name: string, codec?: Codec | Codec[]): CodecEndpoint => createSendingEndpoint(ws, 'WEBSOCKET', name, codec)
\ No newline at end of file
@@ -30,12 +30,12 @@ export const createNodeEndpoint = (worker: NodeEndpoint, name = ''): PostMessage
   const ep: PostMessageEndpoint = {
     addEventListener: (type, listener) => worker.on(type, mapListener(listener)),
     removeEventListener: (type, listener) => worker.off(type, mapListener(listener)),
-    postMessage: (data) => {
+    postMessage: (data, transfer) => {
       if (__DEV__ || __PROD_DEVTOOLS__) {
         const traceID = getTraceID(data)
         devtools(traceID, 'postMessage', webSocketEpID, 'NODE', name, '', data)
       }
-      return worker.postMessage(data)
+      return worker.postMessage(data, transfer)
     }
   }
 
@@ -314,7 +314,7 @@ export const isIntegerKey = (key: unknown): boolean =>
 
 
 /**
- * Checks if all objects in data are plain objects (Object.prototype)
+ * Checks if all objects in data are plain objects (Object.prototype) or binary data
  * @param data - Data to check recursively
  * @returns true if all objects have Object.prototype, false otherwise
  */
@@ -326,8 +326,14 @@ export function hasOnlyPlainObjects(data: unknown): boolean {
     // Primitives are OK
     if (value === null || value === undefined) {return true}
 
+    // Functions can not be cloned
+    if (typeof value === 'function') {return false}
+
     if (!isObject(value)) {return true}
 
+    // Binary data is structured-clonable
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {return true}
+
     // Prevent infinite recursion
     if (seen.has(value as object)) {return true}
     seen.add(value as object)
@@ -1,21 +1,21 @@
 /// <reference lib="dom" />
 /// <reference lib="webworker" />
-import { createSendingEndpoint, type PostMessageEndpoint, wrapEndpointDevtools } from '@remobj/core'
+import { type Codec, type CodecEndpoint, createSendingEndpoint, jsonCodec, type PostMessageEndpoint, wrapEndpointDevtools } from '@remobj/core'
 
-function defineEndpoint<T extends EventTarget, O = undefined>(type: string, postMessage: (ep: T, data: any, options?: O) => void): (base: T, name?: string, options?: O) => PostMessageEndpoint {
+function defineEndpoint<T extends EventTarget, O = undefined>(type: string, postMessage: (ep: T, data: any, options?: O, transfer?: Transferable[]) => void): (base: T, name?: string, options?: O) => PostMessageEndpoint {
   return (ep, name = '', options) => {
     return wrapEndpointDevtools({
-      postMessage: (msg: any) => postMessage(ep, msg, options),
+      postMessage: (msg: any, transfer) => postMessage(ep, msg, options, transfer as Transferable[] | undefined),
       addEventListener: (type, listener) => ep.addEventListener(type, listener as any),
       removeEventListener: (type, listener) => ep.removeEventListener(type, listener as any),
     }, type, name)
   }
 }
 
-export const windowEndpoint: (ep: Window, name: string) => PostMessageEndpoint = defineEndpoint<Window>('WINDOW', (ep, data) => ep.postMessage(data, '*'))
-const _getServiceWorkerEndpoint: (ep: undefined, name: string) => PostMessageEndpoint = defineEndpoint<never>('SW-OUTSIDE', async (_, data) => {
+export const windowEndpoint: (ep: Window, name: string) => PostMessageEndpoint = defineEndpoint<Window>('WINDOW', (ep, data, _options, transfer) => ep.postMessage(data, '*', transfer))
+const _getServiceWorkerEndpoint: (ep: undefined, name: string) => PostMessageEndpoint = defineEndpoint<never>('SW-OUTSIDE', async (_, data, _options, transfer = []) => {
   const serviceWorker = await navigator.serviceWorker.ready
-  return serviceWorker.active?.postMessage(data)
+  return serviceWorker.active?.postMessage(data, transfer)
 }) as any
 
 
@@ -23,6 +23,14 @@ export const getServiceWorkerEndpoint = (name = ''): PostMessageEndpoint => _get
 
 export const getServiceWorkerInternalEndpoint: (self: ServiceWorkerGlobalScope, name?: string, options?: ClientQueryOptions) => PostMessageEndpoint = defineEndpoint<ServiceWorkerGlobalScope, ClientQueryOptions>('SW-INSIDE', async (ep, data, options) => {
   const clients = await ep.clients.matchAll(options)
+  // A message to several clients can not transfer ownership, so it is always copied
   clients.forEach((client: Client) => client.postMessage(data))
 })
-export const createRTCEndpoint = (ws: RTCDataChannel, name = ''): PostMessageEndpoint => createSendingEndpoint(ws, 'RTCDataChannel', name)
+/**
+ * Creates an endpoint on top of an RTCDataChannel, binary codecs send `ArrayBuffer` frames
+ * @param ws - The data channel
+ * @param name - Name for debugging
+ * @param codec - The codec, or the codecs to choose from in the handshake
+ * @returns The endpoint
+ */
+export const createRTCEndpoint = (ws: RTCDataChannel, name = '', codec: Codec | Codec[] = jsonCodec): CodecEndpoint => createSendingEndpoint(ws, 'RTCDataChannel', name, codec)